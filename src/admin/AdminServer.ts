@@ -0,0 +1,136 @@
+/**
+ * AdminServer - Local HTTP endpoints for service supervisors
+ *
+ * Opt-in (ADMIN_PORT) and bound to localhost by default:
+ * - GET /healthz  Loop liveness (heartbeat and task poll still iterating)
+ * - GET /readyz   Authenticated, workspace config loaded, circuit breaker not open
+ * - GET /status   Runtime snapshot for operators
+ * - GET /metrics  Prometheus text exposition of agent metrics
+ */
+
+import * as http from 'http'
+import { logger } from '../utils/logger'
+import { metricsRegistry } from '../metrics/MetricsRegistry'
+
+/**
+ * Result of a health or readiness check
+ */
+export interface ProbeResult {
+  ok: boolean
+  checks: Record<string, any>
+}
+
+/**
+ * Runtime state exposed through the admin endpoints
+ * Implemented by AgentRuntime
+ */
+export interface AdminStatusProvider {
+  getHealth(): ProbeResult
+  getReadiness(): ProbeResult
+  getStatus(): Record<string, any>
+}
+
+export class AdminServer {
+  private server: http.Server | null = null
+
+  constructor(
+    private readonly provider: AdminStatusProvider,
+    private readonly port: number,
+    private readonly host: string = '127.0.0.1'
+  ) {}
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => this.handleRequest(req, res))
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+
+    this.server = server
+    logger.info('Admin server listening', { host: this.host, port: this.port })
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server
+    if (!server) {
+      return
+    }
+
+    this.server = null
+    const closed = new Promise<void>(resolve => server.close(() => resolve()))
+    // close() waits for keep-alive connections (e.g. a Prometheus scraper) to end by themselves
+    server.closeAllConnections()
+    await closed
+    logger.info('Admin server stopped')
+  }
+
+  /**
+   * Route a request to its endpoint
+   */
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== 'GET') {
+      this.sendJson(res, 405, { error: 'Method not allowed' })
+      return
+    }
+
+    const pathname = (req.url || '/').split('?')[0]
+
+    try {
+      switch (pathname) {
+        case '/healthz': {
+          const result = this.provider.getHealth()
+          this.sendJson(res, result.ok ? 200 : 503, { status: result.ok ? 'ok' : 'unhealthy', ...result.checks })
+          return
+        }
+        case '/readyz': {
+          const result = this.provider.getReadiness()
+          this.sendJson(res, result.ok ? 200 : 503, { status: result.ok ? 'ready' : 'not_ready', ...result.checks })
+          return
+        }
+        case '/status':
+          this.sendJson(res, 200, this.provider.getStatus())
+          return
+        case '/metrics':
+          this.sendText(res, 200, metricsRegistry.render(), 'text/plain; version=0.0.4; charset=utf-8')
+          return
+        default:
+          this.sendJson(res, 404, { error: 'Not found' })
+      }
+    } catch (error: any) {
+      logger.error('Admin request failed', { path: pathname, error: error.message })
+      this.sendJson(res, 500, { error: 'Internal error' })
+    }
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private sendJson(res: http.ServerResponse, status: number, body: Record<string, any>): void {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    })
+    res.end(JSON.stringify(body))
+  }
+
+  /**
+   * Write a plain text response
+   */
+  private sendText(res: http.ServerResponse, status: number, body: string, contentType: string): void {
+    res.writeHead(status, {
+      'Content-Type': contentType,
+      'Cache-Control': 'no-store',
+    })
+    res.end(body)
+  }
+}
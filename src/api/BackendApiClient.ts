@@ -1,14 +1,21 @@
 import type { HttpClient } from '../http/types'
 import type { ConfigVersionStore } from '../state/ConfigVersionStore'
+import type { CircuitStateChange } from '../utils/circuit-breaker'
+import { createIdempotencyKey, type Outbox, type OutboxEntry } from '../state/Outbox'
 import { logger } from '../utils/logger'
 import { getErrorMessage, getErrorStatus, getErrorInfo } from '../utils/HttpError'
+import { describeNetworkError } from '../http/NetworkDispatchers'
+
+// Task types handled by the agent's built-in handlers
+export type BuiltinTaskType = 'fetcher' | 'suggestion' | 'apply' | 'logger' | 'maintain'
 
 export interface AgentTask {
   id: string
-  type: 'fetcher' | 'suggestion' | 'apply' | 'logger' | 'maintain'
+  type: BuiltinTaskType | (string & {})  // Plugins add their own task types
   payload: Record<string, any>
   scheduled_at: string
   priority: number
+  lease_expires_at?: string  // Set on claimed tasks; extended via POST /api/agent/tasks/:id/extend
 }
 
 export interface VersionInfo {
@@ -22,28 +29,40 @@ export interface VersionInfo {
 
 // Worker settings types - per-worker configuration
 // schedule_interval_ms = how often the worker creates tasks
+// max_concurrent = how many tasks of this type may run at once (bounded by max_concurrent_tasks)
+// timeout_ms = execution deadline for a single task of this type (watchdog aborts it after)
 export interface FetcherWorkerSettings {
   enabled: boolean
+  max_concurrent?: number  // Default: 1
+  timeout_ms?: number  // Default: 30m
   schedule_interval_ms: number  // 1h/8h/24h - how often to sync from ADO
   max_items?: number  // Maximum items to fetch per sync (100/500/1000). Default: 500
 }
 
 export interface SuggestionWorkerSettings {
   enabled: boolean
+  max_concurrent?: number
+  timeout_ms?: number  // Default: 5m
 }
 
 export interface ApplyWorkerSettings {
   enabled: boolean
+  max_concurrent?: number
+  timeout_ms?: number  // Default: 5m
 }
 
 export interface LoggerWorkerSettings {
   enabled: boolean
+  max_concurrent?: number
+  timeout_ms?: number  // Default: 2m
   log_level: 'debug' | 'info' | 'warn' | 'error'
   schedule_interval_ms: number  // 10s/30s/60s - how often to send logs
 }
 
 export interface MaintainWorkerSettings {
   enabled: boolean
+  max_concurrent?: number
+  timeout_ms?: number  // Default: 10m
   retention_days: number
   schedule_interval_ms: number  // 1h/6h/24h - how often to run cleanup
 }
@@ -56,9 +75,18 @@ export interface WorkerSettings {
   maintain: MaintainWorkerSettings
 }
 
+// Task delivery transport advertised by the backend
+// long_poll = GET /api/agent/tasks?wait=... holds the request until tasks arrive or the wait expires
+export interface TaskDeliverySettings {
+  mode: 'poll' | 'long_poll'
+  long_poll_wait_ms?: number  // Maximum time the backend holds a long-poll request
+}
+
 export interface AgentConfigResponse {
   heartbeat_interval_ms: number
   task_poll_interval_ms: number  // How often to poll for tasks (5m/15m/60m)
+  task_delivery?: TaskDeliverySettings | null  // Omitted by backends without push support
+  task_lease_renewal_ms?: number  // How often to extend the lease on running tasks. Default: 60s
   max_concurrent_tasks: number
   workers: WorkerSettings
   limits: {
@@ -70,10 +98,73 @@ export interface AgentConfigResponse {
   version_info?: VersionInfo | null
 }
 
+// Operator command delivered with GET /api/agent/tasks
+export type AgentCommandType =
+  | 'cancel_task'           // payload: { task_id, reason? }
+  | 'pause'                 // Stop dispatching new tasks
+  | 'resume'                // Undo pause/drain
+  | 'drain'                 // Pause and stop worker schedulers; running tasks finish
+  | 'force_sync'            // payload: { worker_type?: fetcher, logger or maintain } - create a task now (default: fetcher)
+  | 'reset_circuit_breaker'
+  | 'set_log_level'         // payload: { level }
+  | 'dump_diagnostics'
+
+export interface AgentCommand {
+  id: string
+  type: AgentCommandType
+  payload?: Record<string, any>
+  issued_at?: string
+}
+
 // Response from GET /api/agent/tasks (includes config piggyback)
 export interface GetTasksResponse {
   tasks: AgentTask[]
   config?: AgentConfigResponse | null  // Included when config version changes
+  commands?: AgentCommand[]  // Pending operator commands, redelivered until acknowledged
+  // Current workspace config version, included when it differs from the workspace_config_version
+  // the agent sent. Credentials are never piggybacked - the agent re-fetches the workspace config.
+  workspace_config_version?: string | null
+}
+
+// What this agent can run, sent in agent_starting and agent_capabilities signals
+// The runnable task types are also sent with every poll (GET /api/agent/tasks?types=...)
+// so the backend only hands out tasks this agent can execute
+export interface AgentCapabilities {
+  version: string
+  supported_task_types: string[]  // Handler registered and required integrations configured
+  enabled_workers: string[]  // Workers enabled in backend config
+  integrations: {
+    ado: boolean
+    openai: boolean
+  }
+  plugins: Array<{ type: string; version: string }>
+}
+
+// Outcome of authenticate()
+// rejected = the API key was refused (401/403); unreachable = network or server failure
+export type AuthenticationResult = 'authenticated' | 'rejected' | 'unreachable'
+
+// Outcome of registerInstance()
+// unsupported = the backend has no registration endpoint (404); failed = worth retrying later
+export type RegistrationResult = 'registered' | 'unsupported' | 'failed'
+
+// Instance registration sent at startup (POST /api/agent/register)
+// instance_id is generated once per installation and persisted in the data directory;
+// it is also sent with every signal, claim and task result so they can be attributed
+export interface AgentRegistrationRequest {
+  instance_id: string
+  hostname: string
+  labels: Record<string, string>
+  version: string
+  platform: string
+  arch: string
+  node_version: string
+}
+
+export interface AgentRegistrationResponse {
+  agent_id: string
+  workspace_id: string
+  workspace_name?: string | null
 }
 
 // Request to create a task (used by worker schedulers)
@@ -88,7 +179,14 @@ export interface CreateTaskResponse {
   status: 'pending' | 'already_pending'
 }
 
+// Response from POST /api/agent/tasks/:id/extend
+export interface TaskLeaseResponse {
+  extended: boolean
+  lease_expires_at?: string
+}
+
 export interface WorkspaceConfigResponse {
+  version?: string  // Changes whenever any setting or credential changes
   ado_organization: string | null
   ado_project: string | null
   ado_team: string | null
@@ -107,7 +205,7 @@ export interface WorkspaceConfigResponse {
 export type SignalCategory = 'event' | 'log'
 
 // Event types for operational signals (category='event')
-export type SignalEventType = 'heartbeat' | 'task_started' | 'task_completed' | 'task_failed' | 'agent_starting' | 'agent_stopping' | 'error'
+export type SignalEventType = 'heartbeat' | 'task_started' | 'task_progress' | 'task_completed' | 'task_failed' | 'task_timeout' | 'task_lease_lost' | 'command_result' | 'agent_capabilities' | 'agent_starting' | 'agent_reconnected' | 'agent_stopping' | 'credentials_changed' | 'credentials_failed' | 'circuit_breaker_state_changed' | 'error'
 
 // Severity levels for log signals (category='log')
 export type SignalSeverity = 'debug' | 'info' | 'warn' | 'error'
@@ -133,6 +231,17 @@ export interface SignalPayload {
   timestamp?: string
 }
 
+// Signals that are stale by the time an outage ends - never queued for replay
+const EPHEMERAL_SIGNAL_TYPES: Array<SignalPayload['type']> = ['heartbeat', 'task_progress']
+
+/**
+ * Check whether a failed submission could succeed if replayed later
+ * 4xx responses (other than timeout/rate limit) will be rejected again
+ */
+function isTransientFailure(status: number | undefined): boolean {
+  return !status || status >= 500 || status === 408 || status === 429
+}
+
 /**
  * API client for communicating with the adno backend
  * Uses injected HttpClient for all HTTP operations (retry, circuit breaker, logging handled by decorators)
@@ -140,17 +249,23 @@ export interface SignalPayload {
 export class BackendApiClient {
   private httpClient: HttpClient
   private configVersionStore: ConfigVersionStore
+  private outbox: Outbox | null
+  private instanceId: string
+  private registration: AgentRegistrationResponse | null = null
+  private workspaceConfigVersion: string | null = null  // Version of the last fetched workspace config
 
-  constructor(httpClient: HttpClient, configVersionStore: ConfigVersionStore) {
+  constructor(httpClient: HttpClient, configVersionStore: ConfigVersionStore, instanceId: string, outbox?: Outbox) {
     this.httpClient = httpClient
     this.configVersionStore = configVersionStore
+    this.instanceId = instanceId
+    this.outbox = outbox ?? null
   }
 
   /**
    * Authenticate with the backend by attempting to fetch config
    * All agent endpoints perform authentication, so a successful config fetch confirms auth
    */
-  async authenticate(): Promise<boolean> {
+  async authenticate(): Promise<AuthenticationResult> {
     try {
       const config = await this.httpClient.request<AgentConfigResponse>('/api/agent/config')
       this.configVersionStore.setVersion(config.version)
@@ -159,7 +274,7 @@ export class BackendApiClient {
         configVersion: config.version,
       })
 
-      return true
+      return 'authenticated'
     } catch (error: unknown) {
       const { title, status, detail } = getErrorInfo(error)
 
@@ -180,11 +295,42 @@ export class BackendApiClient {
         logger.error(title || 'Authentication request failed', {
           status,
           detail,
-          suggestion: 'Check network connectivity and backend availability',
+          // Proxy and TLS inspection problems surface here first - name the setting that fixes them
+          suggestion: describeNetworkError(error) ?? 'Check network connectivity and backend availability',
         })
       }
 
-      return false
+      return status === 401 || status === 403 ? 'rejected' : 'unreachable'
+    }
+  }
+
+  /**
+   * Register this agent instance with the backend
+   * The response identifies the workspace and agent record the instance belongs to.
+   * Registration failures are logged; the instance ID is still sent with every submission.
+   */
+  async registerInstance(registration: Omit<AgentRegistrationRequest, 'instance_id'>): Promise<RegistrationResult> {
+    try {
+      const data = await this.httpClient.request<AgentRegistrationResponse>('/api/agent/register', {
+        method: 'POST',
+        body: JSON.stringify({ instance_id: this.instanceId, ...registration }),
+        idempotent: true,  // Keyed by instance_id
+      })
+      this.registration = data
+      logger.info('Registered agent instance', {
+        instanceId: this.instanceId,
+        agentId: data.agent_id,
+        workspaceId: data.workspace_id,
+      })
+      return 'registered'
+    } catch (error: unknown) {
+      const { title, status, detail } = getErrorInfo(error)
+      if (status === 404) {
+        logger.info('Backend does not support instance registration', { instanceId: this.instanceId })
+        return 'unsupported'
+      }
+      logger.warn(title || 'Failed to register agent instance', { instanceId: this.instanceId, status, detail })
+      return 'failed'
     }
   }
 
@@ -207,7 +353,9 @@ export class BackendApiClient {
   async getWorkspaceConfig(): Promise<WorkspaceConfigResponse | null> {
     try {
       const data = await this.httpClient.request<WorkspaceConfigResponse>('/api/agent/workspace-config')
+      this.workspaceConfigVersion = data.version ?? null
       logger.info('[BackendApiClient] Fetched workspace configuration', {
+        version: data.version,
         ado_configured: data.config_status?.ado_configured,
         openai_configured: data.config_status?.openai_configured,
       })
@@ -223,15 +371,25 @@ export class BackendApiClient {
    * Send signals (heartbeats, logs, etc) to backend
    */
   async sendSignals(signals: SignalPayload[]): Promise<boolean> {
+    const idempotencyKey = createIdempotencyKey()
+    const body = { instance_id: this.instanceId, signals }
+
     try {
-      await this.httpClient.request('/api/agent/signal', {
-        method: 'POST',
-        body: JSON.stringify({ signals }),
-      })
+      await this.postIdempotent('/api/agent/signal', body, idempotencyKey)
       return true
     } catch (error: unknown) {
       const { title, status, detail } = getErrorInfo(error)
       logger.error(title || 'Failed to send signals', { status, detail })
+
+      const durable = signals.filter(s => !EPHEMERAL_SIGNAL_TYPES.includes(s.type))
+      if (durable.length > 0) {
+        this.queueForReplay(status, {
+          kind: 'signals',
+          path: '/api/agent/signal',
+          body: { instance_id: this.instanceId, signals: durable },
+          idempotencyKey,
+        })
+      }
       return false
     }
   }
@@ -243,16 +401,44 @@ export class BackendApiClient {
     return this.sendSignals([signal])
   }
 
+  /**
+   * Report a circuit breaker state change
+   * A change of the backend breaker itself is queued in the outbox and delivered once it closes
+   */
+  async sendCircuitBreakerStateChange(change: CircuitStateChange): Promise<boolean> {
+    return this.sendSignal({
+      category: 'event',
+      type: 'circuit_breaker_state_changed',
+      severity: change.to === 'OPEN' ? 'warn' : 'info',
+      message: `Circuit breaker ${change.breaker} ${change.from} -> ${change.to}: ${change.reason}`,
+      payload: { ...change },
+    })
+  }
+
   /**
    * Get pending tasks from backend
-   * Also returns config if version changed (piggyback pattern)
+   * Also returns config if version changed (piggyback pattern), and the workspace
+   * config version if it differs from the last fetched workspace config
+   * @param limit Maximum number of tasks to return (0 = config and commands only)
+   * @param waitMs Long-poll wait - the backend holds the request until tasks arrive or the wait expires
    */
-  async getTasks(limit: number = 10): Promise<GetTasksResponse> {
+  async getTasks(limit: number = 10, waitMs?: number, capabilities?: AgentCapabilities): Promise<GetTasksResponse> {
     try {
       // Include config_version for piggyback - server returns config only if version changed
       const version = this.configVersionStore.getVersion()
       const versionParam = version ? `&config_version=${version}` : ''
-      const data = await this.httpClient.request<GetTasksResponse>(`/api/agent/tasks?limit=${limit}${versionParam}`)
+      const workspaceVersionParam = this.workspaceConfigVersion
+        ? `&workspace_config_version=${encodeURIComponent(this.workspaceConfigVersion)}`
+        : ''
+      const waitParam = waitMs ? `&wait=${waitMs}` : ''
+      // Only ask for task types this agent can run (an empty types= would read as "no filter" or "none")
+      const typesParam = capabilities && capabilities.supported_task_types.length > 0
+        ? `&types=${encodeURIComponent(capabilities.supported_task_types.join(','))}`
+        : ''
+      const capabilityParams = capabilities
+        ? `${typesParam}&agent_version=${encodeURIComponent(capabilities.version)}`
+        : ''
+      const data = await this.httpClient.request<GetTasksResponse>(`/api/agent/tasks?limit=${limit}${waitParam}${versionParam}${workspaceVersionParam}${capabilityParams}`)
 
       // Update config version if new config received
       if (data.config) {
@@ -263,6 +449,8 @@ export class BackendApiClient {
       return {
         tasks: data.tasks || [],
         config: data.config,
+        commands: data.commands || [],
+        workspace_config_version: data.workspace_config_version,
       }
     } catch (error: unknown) {
       const { title, status, detail } = getErrorInfo(error)
@@ -280,6 +468,7 @@ export class BackendApiClient {
       const data = await this.httpClient.request<CreateTaskResponse>('/api/agent/tasks', {
         method: 'POST',
         body: JSON.stringify(request),
+        idempotent: true,  // A second request returns already_pending
       })
       logger.debug('Task created', {
         taskId: data.task_id,
@@ -305,6 +494,7 @@ export class BackendApiClient {
     try {
       const data = await this.httpClient.request<{ claimed: boolean; task?: AgentTask }>(`/api/agent/tasks/${taskId}/claim`, {
         method: 'POST',
+        body: JSON.stringify({ instance_id: this.instanceId }),
       })
       if (data.claimed) {
         return data.task || null
@@ -318,18 +508,51 @@ export class BackendApiClient {
   }
 
   /**
-   * Mark a task as completed
+   * Extend the lease on a claimed task
+   * Returns extended: false when the backend no longer considers this agent the owner
+   * (409/410), 'unsupported' when the backend has no extend endpoint (404),
+   * or null when the outcome is unknown (network/server error)
    */
-  async completeTask(taskId: string, result: Record<string, any>): Promise<boolean> {
+  async extendTaskLease(taskId: string): Promise<TaskLeaseResponse | 'unsupported' | null> {
     try {
-      await this.httpClient.request(`/api/agent/tasks/${taskId}/complete`, {
+      return await this.httpClient.request<TaskLeaseResponse>(`/api/agent/tasks/${taskId}/extend`, {
         method: 'POST',
-        body: JSON.stringify({ result }),
+        body: JSON.stringify({ instance_id: this.instanceId }),
+        idempotent: true,
       })
+    } catch (error: unknown) {
+      const { title, status, detail } = getErrorInfo(error)
+
+      if (status === 404) {
+        logger.info('Backend does not support task lease renewal', { taskId, detail })
+        return 'unsupported'
+      }
+
+      if (status === 409 || status === 410) {
+        logger.warn(title || 'Task lease no longer held', { taskId, status, detail })
+        return { extended: false }
+      }
+
+      logger.error(title || 'Failed to extend task lease', { taskId, status, detail })
+      return null
+    }
+  }
+
+  /**
+   * Mark a task as completed
+   */
+  async completeTask(taskId: string, result: Record<string, any>): Promise<boolean> {
+    const path = `/api/agent/tasks/${taskId}/complete`
+    const idempotencyKey = createIdempotencyKey()
+    const body = { instance_id: this.instanceId, result }
+
+    try {
+      await this.postIdempotent(path, body, idempotencyKey)
       return true
     } catch (error: unknown) {
       const { title, status, detail } = getErrorInfo(error)
       logger.error(title || 'Failed to complete task', { taskId, status, detail })
+      this.queueForReplay(status, { kind: 'complete', path, body, taskId, idempotencyKey })
       return false
     }
   }
@@ -338,29 +561,116 @@ export class BackendApiClient {
    * Mark a task as failed
    */
   async failTask(taskId: string, error: string, retryable: boolean = true): Promise<boolean> {
+    const path = `/api/agent/tasks/${taskId}/fail`
+    const idempotencyKey = createIdempotencyKey()
+    const body = { instance_id: this.instanceId, error, retryable }
+
     try {
-      await this.httpClient.request(`/api/agent/tasks/${taskId}/fail`, {
-        method: 'POST',
-        body: JSON.stringify({ error, retryable }),
-      })
+      await this.postIdempotent(path, body, idempotencyKey)
       return true
     } catch (err: unknown) {
       const { title, status, detail } = getErrorInfo(err)
       logger.error(title || 'Failed to report task failure', { taskId, status, detail })
+      this.queueForReplay(status, { kind: 'fail', path, body, taskId, idempotencyKey })
       return false
     }
   }
 
+  /**
+   * Replay queued submissions whose backoff has elapsed
+   * Stops at the first transient failure - the backend is likely still unavailable
+   * @returns Number of entries delivered
+   */
+  async replayOutbox(): Promise<number> {
+    if (!this.outbox) {
+      return 0
+    }
+
+    let delivered = 0
+
+    for (const entry of this.outbox.getDue()) {
+      try {
+        await this.postIdempotent(entry.path, entry.body, entry.idempotencyKey)
+        this.outbox.remove(entry.idempotencyKey)
+        delivered++
+      } catch (error: unknown) {
+        const { title, status, detail } = getErrorInfo(error)
+
+        if (!isTransientFailure(status)) {
+          logger.warn(title || 'Queued submission rejected by backend, dropping', {
+            kind: entry.kind,
+            taskId: entry.taskId,
+            status,
+            detail,
+          })
+          this.outbox.remove(entry.idempotencyKey)
+          continue
+        }
+
+        this.outbox.markFailed(entry.idempotencyKey)
+        logger.debug('Outbox replay deferred', { kind: entry.kind, taskId: entry.taskId, status, attempts: entry.attempts })
+        break
+      }
+    }
+
+    if (delivered > 0) {
+      logger.info('Replayed queued submissions', { delivered, remaining: this.outbox.size() })
+    }
+
+    return delivered
+  }
+
+  /**
+   * Number of submissions waiting for replay
+   */
+  getOutboxSize(): number {
+    return this.outbox?.size() ?? 0
+  }
+
+  /**
+   * POST with an Idempotency-Key header so retries and replays are deduped by the backend
+   */
+  private async postIdempotent(path: string, body: Record<string, any>, idempotencyKey: string): Promise<void> {
+    await this.httpClient.request(path, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: {
+        'Idempotency-Key': idempotencyKey,
+      },
+    })
+  }
+
+  /**
+   * Persist a failed submission for later replay (transient failures only)
+   */
+  private queueForReplay(
+    status: number | undefined,
+    entry: Omit<OutboxEntry, 'attempts' | 'createdAt' | 'nextAttemptAt'>
+  ): void {
+    if (!this.outbox || !isTransientFailure(status)) {
+      return
+    }
+    this.outbox.enqueue(entry)
+  }
+
+  /**
+   * Persistent ID of this agent instance
+   */
+  getInstanceId(): string {
+    return this.instanceId
+  }
+
   /**
    * Get workspace context
-   * Note: workspaceId, workspaceName, and agentId are no longer tracked
-   * as all API endpoints handle authentication internally
+   * workspaceId, workspaceName and agentId come from instance registration
+   * and are null until it succeeds
    */
   getWorkspaceContext() {
     return {
-      workspaceId: null as string | null,
-      workspaceName: null as string | null,
-      agentId: null as string | null,
+      instanceId: this.instanceId,
+      workspaceId: this.registration?.workspace_id ?? null,
+      workspaceName: this.registration?.workspace_name ?? null,
+      agentId: this.registration?.agent_id ?? null,
       configVersion: this.configVersionStore.getVersion(),
     }
   }
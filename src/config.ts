@@ -1,9 +1,34 @@
 import dotenv from 'dotenv'
+import * as fs from 'fs'
+import * as path from 'path'
+import type { HttpTarget } from './http/HttpClientRegistry'
 
 // Load .env file with override: true to prioritize .env values over system env vars
 // This matches the PowerShell installer behavior (CmdLine > .env > SystemEnv > Default)
 dotenv.config({ override: true })
 
+/**
+ * Outbound proxy, reached with HTTP CONNECT
+ * Basic credentials come from username/password or from the proxy URL (NTLM/Kerberos are not supported)
+ */
+export interface ProxySettings {
+  httpsProxy?: string  // Proxy for https:// URLs
+  httpProxy?: string  // Proxy for http:// URLs
+  noProxy: string[]  // Hosts reached directly: "host", ".domain", "host:port" or "*"
+  username?: string
+  password?: string
+}
+
+/**
+ * Outbound network settings - environment defaults, overridden by NETWORK_CONFIG_FILE
+ */
+export interface NetworkSettings {
+  proxy: ProxySettings
+  caCertFile?: string  // PEM bundle trusted in addition to the built-in root certificates
+  // Per-target proxy; null sends the target's requests directly
+  targets: Partial<Record<HttpTarget, ProxySettings | null>>
+}
+
 export interface AgentConfig {
   // API Configuration
   apiKey: string
@@ -14,6 +39,37 @@ export interface AgentConfig {
   heartbeatIntervalMs: number
   maxConcurrentTasks: number
 
+  // Dry run - handlers report intended writes instead of performing them
+  // (a task can also opt in with payload.dry_run = true)
+  dryRun: boolean
+
+  // Multi-workspace mode - WORKSPACES_FILE lists the API keys served by this process
+  // workspaceName is set on the per-workspace configs derived from it
+  workspacesFile?: string
+  workspaceName?: string
+
+  // Agent identity - labels are sent with the instance registration (e.g. env=prod,region=eu)
+  agentLabels: Record<string, string>
+
+  // Task handler isolation - 'worker' runs handlers in worker threads with a heap limit
+  taskExecutionMode: 'inline' | 'worker'
+  taskWorkerMemoryMb: number
+
+  // Task plugins - custom handlers loaded from a directory and/or npm packages
+  pluginDir?: string
+  pluginPackages: string[]
+
+  // Local state (outbox, caches)
+  dataDir: string
+
+  // Outbound proxy and trusted CA certificates - NETWORK_CONFIG_FILE adds per-target overrides
+  network: NetworkSettings
+  networkConfigFile?: string
+
+  // Local admin server (health/readiness/status) - disabled unless a port is set
+  adminPort?: number
+  adminHost: string
+
   // Azure DevOps Configuration
   adoOrganization?: string
   adoProject?: string
@@ -28,6 +84,73 @@ export interface AgentConfig {
   // Logging
   logLevel: 'debug' | 'info' | 'warn' | 'error'
   logFormat: 'json' | 'text'
+
+  // Tracing - disabled unless an OTLP endpoint or trace file is set
+  serviceName: string
+  otlpTracesEndpoint?: string
+  otlpHeaders: Record<string, string>
+  traceFile?: string
+}
+
+// Agent labels are indexed by the backend - keep keys identifier-like and values short
+const LABEL_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9._-]{0,62}$/
+const MAX_LABEL_VALUE_LENGTH = 128
+
+// Targets a NETWORK_CONFIG_FILE may override
+const HTTP_TARGETS: HttpTarget[] = ['backend', 'ado', 'openai']
+
+// Multi-workspace settings
+const WORKSPACE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,62}$/
+const MAX_SHARED_CONCURRENT_TASKS = 100
+
+/**
+ * Resolve the OTLP/HTTP traces endpoint from the standard OpenTelemetry variables
+ */
+function getOtlpTracesEndpoint(): string | undefined {
+  if (process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) {
+    return process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+  }
+  if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+    return `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, '')}/v1/traces`
+  }
+  return undefined
+}
+
+/**
+ * Parse OTEL_EXPORTER_OTLP_HEADERS (comma-separated key=value pairs, URL-encoded values)
+ */
+function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const pair of (value || '').split(',')) {
+    const separator = pair.indexOf('=')
+    if (separator > 0) {
+      headers[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim())
+    }
+  }
+  return headers
+}
+
+/**
+ * Parse AGENT_LABELS (comma-separated key=value pairs)
+ */
+function parseAgentLabels(value: string | undefined): Record<string, string> {
+  const labels: Record<string, string> = {}
+  for (const pair of (value || '').split(',')) {
+    if (!pair.trim()) {
+      continue
+    }
+    const separator = pair.indexOf('=')
+    const key = separator >= 0 ? pair.slice(0, separator).trim() : pair.trim()
+    labels[key] = separator >= 0 ? pair.slice(separator + 1).trim() : ''
+  }
+  return labels
+}
+
+/**
+ * Parse NO_PROXY (hosts separated by commas or whitespace)
+ */
+function parseNoProxy(value: string | undefined): string[] {
+  return (value || '').split(/[,\s]+/).map(host => host.trim()).filter(Boolean)
 }
 
 /**
@@ -48,6 +171,44 @@ export function loadConfig(): AgentConfig {
     heartbeatIntervalMs: parseInt(process.env.HEARTBEAT_INTERVAL_MS || '60000', 10),
     maxConcurrentTasks: parseInt(process.env.MAX_CONCURRENT_TASKS || '3', 10),
 
+    // Dry run (optional)
+    dryRun: process.env.DRY_RUN === 'true',
+
+    // Multi-workspace mode (optional)
+    workspacesFile: process.env.WORKSPACES_FILE,
+
+    // Agent identity labels (optional)
+    agentLabels: parseAgentLabels(process.env.AGENT_LABELS),
+
+    // Task handler isolation
+    taskExecutionMode: (process.env.TASK_EXECUTION_MODE as any) || 'inline',
+    taskWorkerMemoryMb: parseInt(process.env.TASK_WORKER_MEMORY_MB || '512', 10),
+
+    // Task plugins (optional)
+    pluginDir: process.env.PLUGIN_DIR,
+    pluginPackages: (process.env.PLUGIN_PACKAGES || '').split(',').map(name => name.trim()).filter(Boolean),
+
+    // Local state directory (defaults to data/ next to logs/)
+    dataDir: process.env.DATA_DIR || path.join(process.cwd(), 'data'),
+
+    // Outbound proxy and CA certificates (optional - lowercase proxy variables as used by curl)
+    network: {
+      proxy: {
+        httpsProxy: process.env.HTTPS_PROXY || process.env.https_proxy,
+        httpProxy: process.env.HTTP_PROXY || process.env.http_proxy,
+        noProxy: parseNoProxy(process.env.NO_PROXY || process.env.no_proxy),
+        username: process.env.PROXY_USERNAME,
+        password: process.env.PROXY_PASSWORD,
+      },
+      caCertFile: process.env.CA_CERT_FILE,
+      targets: {},
+    },
+    networkConfigFile: process.env.NETWORK_CONFIG_FILE,
+
+    // Admin server (optional - opt-in by setting a port)
+    adminPort: process.env.ADMIN_PORT ? parseInt(process.env.ADMIN_PORT, 10) : undefined,
+    adminHost: process.env.ADMIN_HOST || '127.0.0.1',
+
     // Azure DevOps (optional - can be configured in backend)
     adoOrganization: process.env.ADO_ORGANIZATION,
     adoProject: process.env.ADO_PROJECT,
@@ -62,6 +223,12 @@ export function loadConfig(): AgentConfig {
     // Logging
     logLevel: (process.env.LOG_LEVEL as any) || 'info',
     logFormat: (process.env.LOG_FORMAT as any) || 'json',
+
+    // Tracing (optional)
+    serviceName: process.env.OTEL_SERVICE_NAME || 'adno-agent',
+    otlpTracesEndpoint: getOtlpTracesEndpoint(),
+    otlpHeaders: parseOtlpHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS),
+    traceFile: process.env.TRACE_FILE,
   }
 }
 
@@ -71,7 +238,8 @@ export function loadConfig(): AgentConfig {
 export function validateConfig(config: AgentConfig): { valid: boolean; errors: string[] } {
   const errors: string[] = []
 
-  if (!config.apiKey || !config.apiKey.startsWith('agnt_')) {
+  // In multi-workspace mode the API keys come from WORKSPACES_FILE
+  if (!config.workspacesFile && (!config.apiKey || !config.apiKey.startsWith('agnt_'))) {
     errors.push('Invalid ADNO_API_KEY (must start with "agnt_")')
   }
 
@@ -91,8 +259,264 @@ export function validateConfig(config: AgentConfig): { valid: boolean; errors: s
     errors.push('MAX_CONCURRENT_TASKS must be between 1 and 10')
   }
 
+  for (const [key, value] of Object.entries(config.agentLabels)) {
+    if (!LABEL_KEY_PATTERN.test(key)) {
+      errors.push(`Invalid AGENT_LABELS key "${key}" (letters, digits, ".", "_" or "-", starting with a letter)`)
+    } else if (!value || value.length > MAX_LABEL_VALUE_LENGTH) {
+      errors.push(`AGENT_LABELS value for "${key}" must be 1-${MAX_LABEL_VALUE_LENGTH} characters`)
+    }
+  }
+
+  if (config.taskExecutionMode !== 'inline' && config.taskExecutionMode !== 'worker') {
+    errors.push('TASK_EXECUTION_MODE must be "inline" or "worker"')
+  }
+
+  if (isNaN(config.taskWorkerMemoryMb) || config.taskWorkerMemoryMb < 64 || config.taskWorkerMemoryMb > 8192) {
+    errors.push('TASK_WORKER_MEMORY_MB must be between 64 and 8192')
+  }
+
+  if (config.adminPort !== undefined && (isNaN(config.adminPort) || config.adminPort < 1 || config.adminPort > 65535)) {
+    errors.push('ADMIN_PORT must be between 1 and 65535')
+  }
+
+  if (config.otlpTracesEndpoint && !config.otlpTracesEndpoint.startsWith('http')) {
+    errors.push('Invalid OTEL_EXPORTER_OTLP_ENDPOINT (must be a valid URL)')
+  }
+
+  errors.push(...validateProxySettings(config.network.proxy, 'HTTPS_PROXY', 'HTTP_PROXY'))
+
+  // With NETWORK_CONFIG_FILE the merged path is checked by loadNetworkConfigFile - the file may override it
+  if (!config.networkConfigFile && config.network.caCertFile && !fs.existsSync(config.network.caCertFile)) {
+    errors.push(`CA_CERT_FILE ${config.network.caCertFile} does not exist`)
+  }
+
   return {
     valid: errors.length === 0,
     errors,
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check that proxy URLs are http(s) URLs
+ */
+function validateProxySettings(proxy: ProxySettings, httpsLabel: string, httpLabel: string): string[] {
+  const errors: string[] = []
+  for (const [label, value] of [[httpsLabel, proxy.httpsProxy], [httpLabel, proxy.httpProxy]] as const) {
+    if (value === undefined) {
+      continue
+    }
+    try {
+      const url = new URL(value)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        errors.push(`Invalid ${label} (proxy URL must start with http:// or https://)`)
+      }
+    } catch {
+      errors.push(`Invalid ${label} (must be a valid URL)`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Parse a proxy entry of NETWORK_CONFIG_FILE over defaults
+ * `passwordEnv` reads the password from an environment variable so it can stay out of the file.
+ */
+function parseProxyEntry(entry: any, defaults: ProxySettings, label: string, errors: string[]): ProxySettings {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    errors.push(`${label} must be an object or "direct"`)
+    return defaults
+  }
+
+  for (const field of ['httpsProxy', 'httpProxy', 'username', 'password', 'passwordEnv']) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+      errors.push(`${label}.${field} must be a string`)
+    }
+  }
+  if (entry.noProxy !== undefined && (!Array.isArray(entry.noProxy) || entry.noProxy.some((host: unknown) => typeof host !== 'string'))) {
+    errors.push(`${label}.noProxy must be an array of host names`)
+  }
+  if (entry.passwordEnv !== undefined && process.env[entry.passwordEnv] === undefined) {
+    errors.push(`${label}: ${entry.passwordEnv} is not set`)
+  }
+
+  const proxy: ProxySettings = {
+    httpsProxy: entry.httpsProxy ?? defaults.httpsProxy,
+    httpProxy: entry.httpProxy ?? defaults.httpProxy,
+    noProxy: entry.noProxy ?? defaults.noProxy,
+    username: entry.username ?? defaults.username,
+    password: entry.passwordEnv !== undefined ? process.env[entry.passwordEnv] : entry.password ?? defaults.password,
+  }
+  errors.push(...validateProxySettings(proxy, `${label}.httpsProxy`, `${label}.httpProxy`))
+  return proxy
+}
+
+/**
+ * Load NETWORK_CONFIG_FILE over the network settings from the environment
+ *
+ * Format:
+ *   { "proxy": { "httpsProxy": "http://proxy.corp:8080", "noProxy": ["localhost", ".corp.local"],
+ *                "username": "svc-adno", "passwordEnv": "PROXY_PASSWORD" },
+ *     "caCertFile": "C:\\certs\\corp-root.pem",
+ *     "targets": { "backend": "direct", "openai": { "httpsProxy": "http://ai-egress.corp:3128" } } }
+ *
+ * Fields left out keep the environment value. A target entry is "direct" or a proxy
+ * object; fields it leaves out are taken from the top-level proxy.
+ */
+export function loadNetworkConfigFile(
+  filePath: string,
+  defaults: NetworkSettings
+): { network: NetworkSettings | null; errors: string[] } {
+  const errors: string[] = []
+
+  let raw: any
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error: any) {
+    return { network: null, errors: [`Cannot read NETWORK_CONFIG_FILE ${filePath}: ${error.message}`] }
+  }
+
+  const proxy = raw?.proxy !== undefined ? parseProxyEntry(raw.proxy, defaults.proxy, 'proxy', errors) : defaults.proxy
+
+  if (raw?.caCertFile !== undefined && typeof raw.caCertFile !== 'string') {
+    errors.push('caCertFile must be a string')
+  }
+  const caCertFile = raw?.caCertFile ?? defaults.caCertFile
+  if (caCertFile && !fs.existsSync(caCertFile)) {
+    errors.push(`${raw?.caCertFile !== undefined ? 'caCertFile' : 'CA_CERT_FILE'} ${caCertFile} does not exist`)
+  }
+
+  const targets: NetworkSettings['targets'] = {}
+  if (raw?.targets !== undefined && (typeof raw.targets !== 'object' || raw.targets === null)) {
+    errors.push('targets must be an object')
+  } else {
+    for (const [target, entry] of Object.entries<any>(raw?.targets ?? {})) {
+      if (!HTTP_TARGETS.includes(target as HttpTarget)) {
+        errors.push(`targets.${target}: unknown target (expected ${HTTP_TARGETS.join(', ')})`)
+        continue
+      }
+      targets[target as HttpTarget] = entry === 'direct' ? null : parseProxyEntry(entry, proxy, `targets.${target}`, errors)
+    }
+  }
+
+  return {
+    network: errors.length === 0 ? { proxy, caCertFile, targets } : null,
+    errors,
+  }
+}
+
+/**
+ * A workspace served by a multi-workspace agent (entry of WORKSPACES_FILE)
+ */
+export interface WorkspaceDefinition {
+  name: string  // Tags logs and names the workspace's state directory
+  apiKey: string
+  apiUrl?: string  // Defaults to ADNO_API_URL
+  labels?: Record<string, string>  // Merged over AGENT_LABELS
+}
+
+/**
+ * Parsed WORKSPACES_FILE
+ */
+export interface WorkspacesFile {
+  maxConcurrentTasks: number  // Task slots shared by all workspaces
+  workspaces: WorkspaceDefinition[]
+}
+
+/**
+ * Load and validate WORKSPACES_FILE
+ *
+ * Format:
+ *   { "maxConcurrentTasks": 6,
+ *     "workspaces": [{ "name": "team-a", "apiKeyEnv": "TEAM_A_API_KEY", "labels": { "team": "a" } },
+ *                    { "name": "team-b", "apiKey": "agnt_...", "apiUrl": "https://..." }] }
+ *
+ * `apiKeyEnv` reads the key from an environment variable so it can stay out of the file.
+ */
+export function loadWorkspacesFile(
+  filePath: string,
+  defaultMaxConcurrentTasks: number
+): { workspacesFile: WorkspacesFile | null; errors: string[] } {
+  const errors: string[] = []
+
+  let raw: any
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error: any) {
+    return { workspacesFile: null, errors: [`Cannot read WORKSPACES_FILE ${filePath}: ${error.message}`] }
+  }
+
+  const maxConcurrentTasks = raw?.maxConcurrentTasks ?? defaultMaxConcurrentTasks
+  if (!Number.isInteger(maxConcurrentTasks) || maxConcurrentTasks < 1 || maxConcurrentTasks > MAX_SHARED_CONCURRENT_TASKS) {
+    errors.push(`WORKSPACES_FILE maxConcurrentTasks must be between 1 and ${MAX_SHARED_CONCURRENT_TASKS}`)
+  }
+
+  if (!Array.isArray(raw?.workspaces) || raw.workspaces.length === 0) {
+    errors.push('WORKSPACES_FILE must list at least one workspace')
+    return { workspacesFile: null, errors }
+  }
+
+  const workspaces: WorkspaceDefinition[] = []
+  const names = new Set<string>()
+
+  raw.workspaces.forEach((entry: any, index: number) => {
+    const label = typeof entry?.name === 'string' ? `workspace "${entry.name}"` : `workspace #${index + 1}`
+
+    if (typeof entry?.name !== 'string' || !WORKSPACE_NAME_PATTERN.test(entry.name)) {
+      errors.push(`${label}: name must be letters, digits, "_" or "-" (up to 63 characters)`)
+      return
+    }
+    if (names.has(entry.name.toLowerCase())) {
+      errors.push(`${label}: duplicate name`)
+      return
+    }
+    names.add(entry.name.toLowerCase())
+
+    const apiKey = typeof entry.apiKeyEnv === 'string' ? process.env[entry.apiKeyEnv] : entry.apiKey
+    if (typeof apiKey !== 'string' || !apiKey.startsWith('agnt_')) {
+      errors.push(entry.apiKeyEnv
+        ? `${label}: ${entry.apiKeyEnv} is not set to a valid API key (must start with "agnt_")`
+        : `${label}: invalid apiKey (must start with "agnt_")`)
+      return
+    }
+    if (entry.apiUrl !== undefined && (typeof entry.apiUrl !== 'string' || !entry.apiUrl.startsWith('http'))) {
+      errors.push(`${label}: invalid apiUrl (must be a valid URL)`)
+      return
+    }
+    if (entry.labels !== undefined && (typeof entry.labels !== 'object' || Object.values(entry.labels).some(v => typeof v !== 'string'))) {
+      errors.push(`${label}: labels must be an object of string values`)
+      return
+    }
+
+    workspaces.push({ name: entry.name, apiKey, apiUrl: entry.apiUrl, labels: entry.labels })
+  })
+
+  return {
+    workspacesFile: errors.length === 0 ? { maxConcurrentTasks, workspaces } : null,
+    errors,
+  }
+}
+
+/**
+ * Derive the config of one workspace runtime from the process config
+ *
+ * Each workspace gets its own state directory (identity, outbox). Local ADO/OpenAI
+ * credentials are dropped so one team's credentials can never be used for another
+ * workspace - hosted workspaces use the credentials from their backend workspace config.
+ * The admin server is run once by the host, not per workspace.
+ */
+export function createWorkspaceConfig(base: AgentConfig, workspace: WorkspaceDefinition): AgentConfig {
+  return {
+    ...base,
+    apiKey: workspace.apiKey,
+    apiUrl: workspace.apiUrl ?? base.apiUrl,
+    workspaceName: workspace.name,
+    agentLabels: { ...base.agentLabels, ...workspace.labels },
+    dataDir: path.join(base.dataDir, 'workspaces', workspace.name),
+    adminPort: undefined,
+    adoOrganization: undefined,
+    adoProject: undefined,
+    adoPatToken: undefined,
+    azureOpenAiEndpoint: undefined,
+    azureOpenAiApiKey: undefined,
+  }
+}
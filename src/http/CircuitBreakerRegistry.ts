@@ -0,0 +1,59 @@
+import type { CircuitBreakerConfig, CircuitBreakerStats } from './types'
+import { HttpClientFactory } from './HttpClientFactory'
+import type { CircuitBreaker, CircuitStateChange } from '../utils/circuit-breaker'
+
+/**
+ * Circuit breakers keyed by name (target, host and route), created on first use
+ *
+ * Lets one client keep a separate breaker per host or route, so an outage of one
+ * Azure OpenAI deployment or ADO organization does not fail calls to the others.
+ * State changes of every breaker are passed to the registered listeners.
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers: Map<string, CircuitBreaker> = new Map()
+  private readonly listeners: Array<(change: CircuitStateChange) => void> = []
+
+  /**
+   * Breaker for a name, created with config on first use
+   */
+  get(name: string, config: Partial<CircuitBreakerConfig>): CircuitBreaker {
+    let breaker = this.breakers.get(name)
+    if (!breaker) {
+      breaker = HttpClientFactory.createCircuitBreaker(config, name)
+      breaker.onStateChange(change => {
+        for (const listener of this.listeners) {
+          listener(change)
+        }
+      })
+      this.breakers.set(name, breaker)
+    }
+    return breaker
+  }
+
+  /**
+   * Call listener on state transitions of any breaker, including ones created later
+   */
+  onStateChange(listener: (change: CircuitStateChange) => void): void {
+    this.listeners.push(listener)
+  }
+
+  /**
+   * State of every breaker for status output
+   */
+  getStats(): Record<string, CircuitBreakerStats> {
+    const stats: Record<string, CircuitBreakerStats> = {}
+    for (const [name, breaker] of this.breakers) {
+      stats[name] = breaker.getStats()
+    }
+    return stats
+  }
+
+  /**
+   * Close every breaker
+   */
+  resetAll(): void {
+    for (const breaker of this.breakers.values()) {
+      breaker.reset()
+    }
+  }
+}
@@ -1,4 +1,5 @@
-import type { HttpClient } from './types'
+import { fetch as undiciFetch, type Dispatcher, type RequestInit as UndiciRequestInit } from 'undici'
+import type { HttpClient, HttpRequestOptions } from './types'
 import { HttpError, type ProblemDetails } from '../utils/HttpError'
 import { logger } from '../utils/logger'
 
@@ -10,10 +11,11 @@ export class FetchHttpClient implements HttpClient {
   constructor(
     private readonly baseURL: string,
     private readonly defaultHeaders: Record<string, string>,
-    private readonly timeoutMs: number = 30000
+    private readonly timeoutMs: number = 30000,
+    private readonly dispatcher?: Dispatcher  // Proxy / custom CA - see NetworkDispatchers
   ) {}
 
-  async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  async request<T>(path: string, options: HttpRequestOptions = {}): Promise<T> {
     const url = `${this.baseURL}${path}`
 
     logger.debug('HTTP Request', {
@@ -21,14 +23,21 @@ export class FetchHttpClient implements HttpClient {
       url: path,
     })
 
-    const response = await fetch(url, {
-      ...options,
+    const { timeoutMs = this.timeoutMs, idempotent: _idempotent, ...init } = options
+    const requestInit: RequestInit = {
+      ...init,
       headers: {
         ...this.defaultHeaders,
-        ...options.headers,
+        ...init.headers,
       },
-      signal: AbortSignal.timeout(this.timeoutMs),
-    })
+      // The caller's signal (e.g. the task's) cancels the request too
+      signal: init.signal ? AbortSignal.any([init.signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs),
+    }
+    // A dispatcher from the undici package goes with that package's fetch -
+    // the built-in fetch bundles its own, possibly different, undici version
+    const response = this.dispatcher
+      ? await undiciFetch(url, { ...requestInit, dispatcher: this.dispatcher } as UndiciRequestInit)
+      : await fetch(url, requestInit)
 
     logger.debug('HTTP Response', {
       status: response.status,
@@ -37,6 +46,7 @@ export class FetchHttpClient implements HttpClient {
 
     if (!response.ok) {
       const contentType = response.headers.get('content-type') || ''
+      const headers = Object.fromEntries(response.headers.entries())
       const errorText = await response.text().catch(() => 'Unknown error')
 
       // RFC 9457 Problem Details response
@@ -46,7 +56,7 @@ export class FetchHttpClient implements HttpClient {
           const message = problem.detail
             ? `${problem.title}: ${problem.detail}`
             : problem.title
-          throw new HttpError(message, problem.status || response.status, problem)
+          throw new HttpError(message, problem.status || response.status, problem, headers)
         } catch (e) {
           if (e instanceof HttpError) throw e
           // Fall through to generic handling if parsing fails
@@ -64,7 +74,7 @@ export class FetchHttpClient implements HttpClient {
         }
       }
 
-      throw new HttpError(`HTTP ${response.status}: ${errorMessage}`, response.status)
+      throw new HttpError(`HTTP ${response.status}: ${errorMessage}`, response.status, undefined, headers)
     }
 
     return response.json() as Promise<T>
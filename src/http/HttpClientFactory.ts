@@ -1,19 +1,34 @@
-import type { HttpClient, CircuitBreakerConfig, RetryConfig } from './types'
+import type { Dispatcher } from 'undici'
+import type { HttpClient, CircuitBreakerConfig, CircuitBreakerPolicy, RetryConfig } from './types'
 import { FetchHttpClient } from './FetchHttpClient'
-import { RetryHttpClient, ExponentialBackoffRetryPolicy } from './decorators/RetryHttpClient'
+import { RetryHttpClient, HeaderAwareRetryPolicy } from './decorators/RetryHttpClient'
 import { CircuitBreakerHttpClient } from './decorators/CircuitBreakerHttpClient'
 import { LoggingHttpClient } from './decorators/LoggingHttpClient'
+import { MetricsHttpClient } from './decorators/MetricsHttpClient'
+import { TracingHttpClient } from './decorators/TracingHttpClient'
 import { CircuitBreaker } from '../utils/circuit-breaker'
 
 /**
  * Configuration for creating a resilient HTTP client
  */
 export interface ResilientHttpClientConfig {
-  baseURL: string
-  apiKey: string
+  /** Prefix for request paths - omit when requests use absolute URLs */
+  baseURL?: string
+  /** Sent as a Bearer token - omit for targets whose credentials are passed per request */
+  apiKey?: string
+  /** Metrics, span and circuit breaker label when there is no baseURL (default: host of baseURL) */
+  name?: string
   timeoutMs?: number
   circuitBreaker?: CircuitBreakerConfig
+  /** Shared circuit breaker instance (takes precedence over circuitBreaker config) */
+  circuitBreakerPolicy?: CircuitBreakerPolicy
+  /** Picks the breaker per request path, e.g. from a CircuitBreakerRegistry (takes precedence over both) */
+  selectCircuitBreaker?: (path: string) => Pick<CircuitBreakerPolicy, 'execute'>
   retry?: RetryConfig
+  /** Send W3C traceparent headers (only for backends that accept our trace context) */
+  propagateTraceContext?: boolean
+  /** undici dispatcher for proxy and custom CA settings (default: the fetch global dispatcher) */
+  dispatcher?: Dispatcher
 }
 
 /**
@@ -23,36 +38,54 @@ export interface ResilientHttpClientConfig {
 export class HttpClientFactory {
   /**
    * Create a resilient HTTP client with full decorator chain:
-   * LoggingHttpClient → CircuitBreakerHttpClient → RetryHttpClient → FetchHttpClient
+   * LoggingHttpClient → TracingHttpClient → CircuitBreakerHttpClient → RetryHttpClient → MetricsHttpClient → FetchHttpClient
    */
   static createResilientClient(config: ResilientHttpClientConfig): HttpClient {
     // 1. Core HTTP client (innermost layer)
     const coreClient = new FetchHttpClient(
-      config.baseURL,
-      {
-        'Authorization': `Bearer ${config.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      config.timeoutMs ?? 30000
+      config.baseURL ?? '',
+      config.apiKey
+        ? { 'Authorization': `Bearer ${config.apiKey}`, 'Content-Type': 'application/json' }
+        : { 'Content-Type': 'application/json' },
+      config.timeoutMs ?? 30000,
+      config.dispatcher
     )
 
-    // 2. Wrap with retry policy
-    const retryPolicy = new ExponentialBackoffRetryPolicy(
-      config.retry?.maxRetries ?? 3,
-      config.retry?.backoffMs ?? 1000
-    )
-    const retryClient = new RetryHttpClient(coreClient, retryPolicy)
-
-    // 3. Wrap with circuit breaker
-    const circuitBreaker = new CircuitBreaker({
-      failureThreshold: config.circuitBreaker?.failureThreshold ?? 5,
-      recoveryTimeoutMs: config.circuitBreaker?.recoveryTimeoutMs ?? 60000,
-      successThreshold: config.circuitBreaker?.successThreshold ?? 2,
-      timeoutMs: config.circuitBreaker?.timeoutMs ?? 30000,
-    })
-    const resilientClient = new CircuitBreakerHttpClient(retryClient, circuitBreaker)
-
-    // 4. Wrap with logging (outermost layer)
-    return new LoggingHttpClient(resilientClient)
+    // 2. Wrap with metrics (below retry so each attempt is recorded)
+    const host = config.baseURL ? new URL(config.baseURL).host : config.name ?? 'default'
+    const metricsClient = new MetricsHttpClient(coreClient, host)
+
+    // 3. Wrap with retry policy (honours Retry-After and rate-limit headers)
+    const retryPolicy = new HeaderAwareRetryPolicy({
+      maxRetries: 3,
+      backoffMs: 1000,
+      attemptTimeoutMs: config.timeoutMs ?? 30000,
+      ...config.retry,
+    }, host)
+    const retryClient = new RetryHttpClient(metricsClient, retryPolicy)
+
+    // 4. Wrap with circuit breaker
+    const circuitBreaker = config.circuitBreakerPolicy ?? HttpClientFactory.createCircuitBreaker(config.circuitBreaker, host)
+    const resilientClient = new CircuitBreakerHttpClient(retryClient, config.selectCircuitBreaker ?? (() => circuitBreaker), config.timeoutMs ?? 30000)
+
+    // 5. Wrap with tracing (one span per logical request, including retries)
+    const tracingClient = new TracingHttpClient(resilientClient, host, config.propagateTraceContext ?? false)
+
+    // 6. Wrap with logging (outermost layer)
+    return new LoggingHttpClient(tracingClient)
+  }
+
+  /**
+   * Create a circuit breaker with defaults for missing settings
+   * Use with circuitBreakerPolicy when the caller needs to observe or reset the breaker
+   */
+  static createCircuitBreaker(config?: Partial<CircuitBreakerConfig>, name?: string): CircuitBreaker {
+    return new CircuitBreaker({
+      ...config,
+      failureThreshold: config?.failureThreshold ?? 5,
+      recoveryTimeoutMs: config?.recoveryTimeoutMs ?? 60000,
+      successThreshold: config?.successThreshold ?? 2,
+      timeoutMs: config?.timeoutMs ?? 30000,
+    }, name)
   }
 }
@@ -0,0 +1,180 @@
+import type { AgentConfig } from '../config'
+import type { HttpClient, CircuitBreakerConfig, CircuitBreakerPolicy, CircuitBreakerStats, RetryConfig } from './types'
+import { HttpClientFactory, type ResilientHttpClientConfig } from './HttpClientFactory'
+import { CircuitBreakerRegistry } from './CircuitBreakerRegistry'
+import { NetworkDispatchers } from './NetworkDispatchers'
+import type { CircuitBreaker, CircuitStateChange } from '../utils/circuit-breaker'
+
+/**
+ * Outbound targets, each with its own client, retry policy and circuit breaker
+ */
+export type HttpTarget = 'backend' | 'ado' | 'openai'
+
+/**
+ * Picks the circuit breaker for a request - lets worker threads use the main thread's breakers
+ */
+export type CircuitBreakerSelector = (target: HttpTarget, path: string) => Pick<CircuitBreakerPolicy, 'execute'>
+
+interface TargetPolicy {
+  timeoutMs: number  // Per attempt
+  retry: RetryConfig  // maxElapsedMs (which includes the last attempt's timeout) stays below the circuit breaker timeout
+  circuitBreaker: CircuitBreakerConfig  // timeoutMs covers all attempts of one request
+  // When set, each host + matching path prefix gets its own breaker; otherwise one breaker per target
+  circuitBreakerRoute?: RegExp
+}
+
+// Resilience policy per target
+const TARGET_POLICIES: Record<HttpTarget, TargetPolicy> = {
+  // Low, steady call volume (heartbeats, polls) - consecutive failures detect an outage fastest
+  backend: {
+    timeoutMs: 30000,
+    retry: { maxRetries: 3, backoffMs: 1000, maxBackoffMs: 10000, maxElapsedMs: 55000 },
+    circuitBreaker: { failureThreshold: 5, recoveryTimeoutMs: 60000, successThreshold: 2, timeoutMs: 60000 },
+  },
+  // ADO has short 503 blips and throttles with Retry-After - retry longer before failing a whole sync.
+  // One breaker per organization, opened on the failure rate so intermittent errors still count.
+  ado: {
+    timeoutMs: 30000,
+    retry: { maxRetries: 4, backoffMs: 2000, maxBackoffMs: 30000, maxElapsedMs: 120000 },
+    circuitBreaker: {
+      failureThreshold: 5,
+      recoveryTimeoutMs: 60000,
+      successThreshold: 1,
+      timeoutMs: 150000,
+      mode: 'sliding_window',
+      windowMs: 5 * 60 * 1000,
+      minimumCalls: 4,
+      failureRateThreshold: 0.5,
+      slowCallDurationMs: 60000,
+      slowCallRateThreshold: 0.8,
+    },
+    circuitBreakerRoute: /^\/[^/]+/,
+  },
+  // Completions can take most of a minute. One breaker per deployment, since each is throttled separately.
+  openai: {
+    timeoutMs: 90000,
+    retry: { maxRetries: 3, backoffMs: 2000, maxBackoffMs: 30000, maxElapsedMs: 240000 },
+    circuitBreaker: {
+      failureThreshold: 3,
+      recoveryTimeoutMs: 120000,
+      successThreshold: 1,
+      timeoutMs: 300000,
+      mode: 'sliding_window',
+      windowMs: 2 * 60 * 1000,
+      minimumCalls: 5,
+      failureRateThreshold: 0.5,
+      slowCallDurationMs: 120000,
+      slowCallRateThreshold: 0.8,
+    },
+    circuitBreakerRoute: /^\/openai\/deployments\/[^/]+/,
+  },
+}
+
+const ADO_BASE_URL = 'https://dev.azure.com'
+
+const ABSOLUTE_URL_PATTERN = /^https?:\/\//
+
+/**
+ * Named HTTP clients for every outbound target, built from the resilient decorator chain
+ *
+ * Requests go through the proxy and CA settings of the target (see NetworkDispatchers).
+ * Only the backend client carries credentials (the agent API key). ADO and Azure OpenAI
+ * credentials come from the workspace config, which can be rotated while the agent
+ * runs, so handlers pass them per request; Azure OpenAI requests use absolute URLs
+ * because the endpoint is part of that config.
+ */
+export class HttpClientRegistry {
+  private readonly clients: Map<HttpTarget, HttpClient> = new Map()
+  private readonly circuitBreakers: CircuitBreakerRegistry = new CircuitBreakerRegistry()
+  private readonly breakerPrefix: string  // Breakers of a multi-workspace agent are per workspace
+  private readonly baseHosts: Map<HttpTarget, string> = new Map()
+
+  /**
+   * @param selectCircuitBreaker Breakers kept elsewhere (task worker threads); default: this registry's own
+   */
+  constructor(config: AgentConfig, selectCircuitBreaker?: CircuitBreakerSelector) {
+    this.breakerPrefix = config.workspaceName ? `:${config.workspaceName}` : ''
+    const select = selectCircuitBreaker ?? ((target, path) => this.getCircuitBreaker(target, path))
+    const network = NetworkDispatchers.forThread(config.network)
+
+    for (const target of Object.keys(TARGET_POLICIES) as HttpTarget[]) {
+      const endpoint = HttpClientRegistry.getEndpoint(target, config)
+      this.baseHosts.set(target, endpoint.baseURL ? new URL(endpoint.baseURL).host : '')
+      this.clients.set(target, HttpClientFactory.createResilientClient({
+        ...endpoint,
+        timeoutMs: TARGET_POLICIES[target].timeoutMs,
+        retry: TARGET_POLICIES[target].retry,
+        dispatcher: network.forTarget(target),
+        selectCircuitBreaker: path => select(target, path),
+      }))
+    }
+
+    // Created up front so it is reported and observable before the first request
+    if (!selectCircuitBreaker) {
+      this.getBackendCircuitBreaker()
+    }
+  }
+
+  /**
+   * Client for a target
+   */
+  get(target: HttpTarget): HttpClient {
+    return this.clients.get(target)!
+  }
+
+  /**
+   * Backend circuit breaker, for readiness checks and outbox replay
+   */
+  getBackendCircuitBreaker(): CircuitBreaker {
+    return this.getCircuitBreaker('backend', '')
+  }
+
+  /**
+   * Call listener when any breaker changes state
+   */
+  onCircuitBreakerStateChange(listener: (change: CircuitStateChange) => void): void {
+    this.circuitBreakers.onStateChange(listener)
+  }
+
+  /**
+   * State of every breaker created so far, keyed by breaker name
+   */
+  getCircuitBreakerStats(): Record<string, CircuitBreakerStats> {
+    return this.circuitBreakers.getStats()
+  }
+
+  /**
+   * Close every circuit breaker
+   */
+  resetCircuitBreakers(): void {
+    this.circuitBreakers.resetAll()
+  }
+
+  /**
+   * Breaker for a request: one per target, or per host and route for targets with circuitBreakerRoute
+   * Names look like `backend`, `ado:dev.azure.com/contoso`, `openai:<ws>:<host>/openai/deployments/gpt-4`
+   */
+  getCircuitBreaker(target: HttpTarget, path: string): CircuitBreaker {
+    const policy = TARGET_POLICIES[target]
+    let name = `${target}${this.breakerPrefix}`
+
+    if (policy.circuitBreakerRoute) {
+      const url = ABSOLUTE_URL_PATTERN.test(path) ? new URL(path) : null
+      const route = policy.circuitBreakerRoute.exec(url?.pathname ?? path.split('?')[0])?.[0] ?? ''
+      name += `:${url?.host ?? this.baseHosts.get(target)}${route}`
+    }
+
+    return this.circuitBreakers.get(name, policy.circuitBreaker)
+  }
+
+  private static getEndpoint(target: HttpTarget, config: AgentConfig): Pick<ResilientHttpClientConfig, 'baseURL' | 'apiKey' | 'name' | 'propagateTraceContext'> {
+    switch (target) {
+      case 'backend':
+        return { baseURL: config.apiUrl, apiKey: config.apiKey, propagateTraceContext: true }
+      case 'ado':
+        return { baseURL: ADO_BASE_URL }
+      case 'openai':
+        return { name: 'azure-openai' }
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import * as fs from 'fs'
+import * as tls from 'tls'
+import { Agent, EnvHttpProxyAgent, setGlobalDispatcher, type Dispatcher, type ProxyAgent } from 'undici'
+import type { NetworkSettings, ProxySettings } from '../config'
+import type { HttpTarget } from './HttpClientRegistry'
+
+// Certificate errors that mean the chain ends in a root CA Node does not trust
+// (typically a proxy re-signing TLS traffic with an internal CA)
+const UNTRUSTED_CERT_CODES = [
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'CERT_UNTRUSTED',
+]
+
+// Certificate errors that a CA bundle does not fix
+const INVALID_CERT_CODES = ['CERT_HAS_EXPIRED', 'CERT_NOT_YET_VALID', 'ERR_TLS_CERT_ALTNAME_INVALID']
+
+// undici reports a refused CONNECT as "Proxy response (<status>) !== 200 when HTTP Tunneling"
+const PROXY_RESPONSE_PATTERN = /Proxy response \((\d+)\)/
+
+// How deep to follow error.cause (fetch wraps the socket error)
+const MAX_CAUSE_DEPTH = 5
+
+// Dispatchers of this thread - built once and shared by the global dispatcher and every HttpClientRegistry
+let threadDispatchers: { settings: NetworkSettings; dispatchers: NetworkDispatchers } | null = null
+
+/**
+ * undici dispatchers for outbound requests, built from the proxy and CA settings
+ *
+ * Native fetch ignores HTTPS_PROXY/NO_PROXY and only trusts the built-in root
+ * certificates, so FetchHttpClient passes one of these as the fetch dispatcher.
+ * Targets without an override share the default dispatcher; when neither a proxy
+ * nor a CA bundle is configured, no dispatcher is created and fetch behaves as before.
+ */
+export class NetworkDispatchers {
+  private readonly ca?: string[]
+  private readonly defaultDispatcher?: Dispatcher
+  private readonly targetDispatchers: Map<HttpTarget, Dispatcher> = new Map()
+
+  constructor(settings: NetworkSettings) {
+    if (settings.caCertFile) {
+      // Passing ca replaces the built-in roots, so keep them alongside the custom bundle
+      this.ca = [...tls.rootCertificates, fs.readFileSync(settings.caCertFile, 'utf8')]
+    }
+
+    this.defaultDispatcher = this.createDispatcher(settings.proxy)
+    for (const [target, proxy] of Object.entries(settings.targets) as Array<[HttpTarget, ProxySettings | null]>) {
+      // Always explicit - "direct" must bypass a proxy installed as the global dispatcher
+      this.targetDispatchers.set(target, this.createDispatcher(proxy) ?? new Agent())
+    }
+  }
+
+  /**
+   * Dispatchers of the current thread, built on first use
+   * Workspace configs share the process settings, so every caller gets the same instance
+   * (and its connection pools); different settings replace it
+   */
+  static forThread(settings: NetworkSettings): NetworkDispatchers {
+    if (threadDispatchers?.settings !== settings) {
+      threadDispatchers = { settings, dispatchers: new NetworkDispatchers(settings) }
+    }
+    return threadDispatchers.dispatchers
+  }
+
+  /**
+   * Route fetch calls that do not go through an HttpClient (span export, plugins)
+   * through the default dispatcher; no-op when nothing is configured
+   * The agent's own calls use undici's fetch; plugins calling the built-in fetch pick
+   * the dispatcher up from the same global slot
+   */
+  static installGlobal(settings: NetworkSettings): void {
+    const dispatcher = NetworkDispatchers.forThread(settings).defaultDispatcher
+    if (dispatcher) {
+      setGlobalDispatcher(dispatcher)
+    }
+  }
+
+  /**
+   * Dispatcher for a target, or undefined to use the fetch default
+   */
+  forTarget(target: HttpTarget): Dispatcher | undefined {
+    return this.targetDispatchers.get(target) ?? this.defaultDispatcher
+  }
+
+  /**
+   * Proxy (honouring noProxy) or direct dispatcher; undefined when nothing needs to change
+   */
+  private createDispatcher(proxy: ProxySettings | null): Dispatcher | undefined {
+    if (!proxy || (!proxy.httpsProxy && !proxy.httpProxy)) {
+      return this.createDirect()
+    }
+
+    const tlsOptions = this.ca ? { ca: this.ca } : {}
+    // EnvHttpProxyAgent passes its options on to the ProxyAgents it creates
+    const options: EnvHttpProxyAgent.Options & Pick<ProxyAgent.Options, 'requestTls' | 'proxyTls'> = {
+      // Empty strings stop undici from falling back to the proxy environment variables itself
+      httpsProxy: withCredentials(proxy.httpsProxy, proxy) ?? '',
+      httpProxy: withCredentials(proxy.httpProxy, proxy) ?? '',
+      noProxy: proxy.noProxy.join(','),
+      connect: tlsOptions,
+      requestTls: tlsOptions,
+      proxyTls: tlsOptions,
+    }
+    return new EnvHttpProxyAgent(options)
+  }
+
+  private createDirect(): Dispatcher | undefined {
+    return this.ca ? new Agent({ connect: { ca: this.ca } }) : undefined
+  }
+}
+
+/**
+ * Proxy URL with username/password set - undici sends URL credentials as Basic Proxy-Authorization
+ */
+function withCredentials(value: string | undefined, proxy: ProxySettings): string | undefined {
+  if (!value || proxy.username === undefined) {
+    return value
+  }
+  const url = new URL(value)
+  url.username = proxy.username
+  url.password = proxy.password ?? ''
+  return url.toString()
+}
+
+/**
+ * Proxy URL without credentials, for logs and status output
+ */
+export function redactProxyUrl(value: string | undefined): string | undefined {
+  if (!value) {
+    return value
+  }
+  try {
+    const url = new URL(value)
+    url.username = ''
+    url.password = ''
+    return url.toString()
+  } catch {
+    return '(invalid URL)'
+  }
+}
+
+/**
+ * Explain a proxy or TLS failure in terms of the settings that fix it
+ * Returns undefined for other errors
+ */
+export function describeNetworkError(error: unknown): string | undefined {
+  let current: any = error
+  for (let depth = 0; current && depth < MAX_CAUSE_DEPTH; depth++, current = current.cause) {
+    const code = typeof current.code === 'string' ? current.code : undefined
+
+    if (code && UNTRUSTED_CERT_CODES.includes(code)) {
+      return `TLS verification failed (${code}): the server certificate is not signed by a trusted root CA. ` +
+        'If a proxy inspects TLS traffic, set CA_CERT_FILE to a PEM file with your organization\'s root certificate'
+    }
+    if (code && INVALID_CERT_CODES.includes(code)) {
+      return `TLS verification failed (${code}): the server certificate is expired or does not match the host name. ` +
+        'Check the system clock and that the URL uses the host name the certificate was issued for'
+    }
+
+    const proxyStatus = typeof current.message === 'string' ? PROXY_RESPONSE_PATTERN.exec(current.message)?.[1] : undefined
+    if (proxyStatus === '407') {
+      return 'The proxy requires authentication (HTTP 407): set PROXY_USERNAME and PROXY_PASSWORD, ' +
+        'or credentials in the proxy URL. Only Basic proxy authentication is supported'
+    }
+    if (proxyStatus) {
+      return `The proxy refused the connection (HTTP ${proxyStatus}): check that it allows CONNECT to this host, or add the host to NO_PROXY`
+    }
+  }
+  return undefined
+}
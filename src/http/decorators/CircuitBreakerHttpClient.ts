@@ -1,32 +1,26 @@
-import type { HttpClient, CircuitBreakerPolicy } from '../types'
+import type { HttpClient, CircuitBreakerPolicy, HttpRequestOptions } from '../types'
 
 /**
  * HTTP client decorator that adds circuit breaker pattern
  * Prevents cascading failures by failing fast when backend is down
+ *
+ * The breaker is chosen per request, so one client can keep separate breakers
+ * per host or route (see CircuitBreakerRegistry)
  */
 export class CircuitBreakerHttpClient implements HttpClient {
   constructor(
     private readonly innerClient: HttpClient,
-    private readonly circuitBreaker: CircuitBreakerPolicy
+    private readonly selectCircuitBreaker: (path: string) => Pick<CircuitBreakerPolicy, 'execute'>,
+    private readonly attemptTimeoutMs: number = 0  // Client timeout per attempt
   ) {}
 
-  async request<T>(path: string, options?: RequestInit): Promise<T> {
-    return this.circuitBreaker.execute(() =>
-      this.innerClient.request<T>(path, options)
+  async request<T>(path: string, options?: HttpRequestOptions): Promise<T> {
+    // A request with a longer per-attempt timeout extends the breaker timeout by the same amount,
+    // matching the longer retry budget it gets (see HeaderAwareRetryPolicy)
+    const extendMs = Math.max(0, (options?.timeoutMs ?? this.attemptTimeoutMs) - this.attemptTimeoutMs)
+    return this.selectCircuitBreaker(path).execute(() =>
+      this.innerClient.request<T>(path, options),
+      extendMs
     )
   }
-
-  /**
-   * Get current circuit breaker state for monitoring
-   */
-  getCircuitBreakerState() {
-    return this.circuitBreaker.getStats()
-  }
-
-  /**
-   * Manually reset the circuit breaker
-   */
-  resetCircuitBreaker() {
-    this.circuitBreaker.reset()
-  }
 }
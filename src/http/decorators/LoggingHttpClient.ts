@@ -1,4 +1,4 @@
-import type { HttpClient } from '../types'
+import type { HttpClient, HttpRequestOptions } from '../types'
 import { logger } from '../../utils/logger'
 import { getErrorMessage, getErrorStatus } from '../../utils/HttpError'
 
@@ -9,7 +9,7 @@ import { getErrorMessage, getErrorStatus } from '../../utils/HttpError'
 export class LoggingHttpClient implements HttpClient {
   constructor(private readonly innerClient: HttpClient) {}
 
-  async request<T>(path: string, options?: RequestInit): Promise<T> {
+  async request<T>(path: string, options?: HttpRequestOptions): Promise<T> {
     try {
       const result = await this.innerClient.request<T>(path, options)
       return result
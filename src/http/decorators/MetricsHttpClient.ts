@@ -0,0 +1,35 @@
+import type { HttpClient, HttpRequestOptions } from '../types'
+import { getErrorStatus } from '../../utils/HttpError'
+import { agentMetrics } from '../../metrics/AgentMetrics'
+
+const ABSOLUTE_URL_PATTERN = /^https?:\/\//
+
+/**
+ * HTTP client decorator that records request counts and durations
+ * Sits directly above the core client so every retry attempt is counted
+ */
+export class MetricsHttpClient implements HttpClient {
+  constructor(
+    private readonly innerClient: HttpClient,
+    private readonly host: string
+  ) {}
+
+  async request<T>(path: string, options?: HttpRequestOptions): Promise<T> {
+    // Clients without a base URL send absolute URLs - label those by their own host
+    const host = ABSOLUTE_URL_PATTERN.test(path) ? new URL(path).host : this.host
+    const stopTimer = agentMetrics.httpRequestDuration.startTimer({ host })
+
+    try {
+      const result = await this.innerClient.request<T>(path, options)
+      agentMetrics.httpRequests.inc({ host, status: '2xx' })
+      return result
+    } catch (error: unknown) {
+      // Network failures and timeouts have no HTTP status
+      const status = getErrorStatus(error)
+      agentMetrics.httpRequests.inc({ host, status: status ? String(status) : 'error' })
+      throw error
+    } finally {
+      stopTimer()
+    }
+  }
+}
@@ -1,6 +1,20 @@
-import type { HttpClient, RetryPolicy } from '../types'
-import { getErrorStatus, getErrorMessage } from '../../utils/HttpError'
+import type { HttpClient, RetryPolicy, RetryConfig, RetryRequestInfo, HttpRequestOptions } from '../types'
+import { getErrorStatus, getErrorMessage, getErrorHeader } from '../../utils/HttpError'
 import { logger } from '../../utils/logger'
+import { agentMetrics } from '../../metrics/AgentMetrics'
+
+// Methods that can be sent twice without changing the outcome (RFC 9110 section 9.2.2)
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+// Statuses worth retrying for idempotent requests (429 is retried for every request)
+const RETRYABLE_STATUSES = [408, 500, 502, 503, 504]
+
+// Connection failures where the request never reached the server
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT']
+
+// Defaults for RetryConfig fields that are optional
+const DEFAULT_MAX_BACKOFF_MS = 30000
+const DEFAULT_MAX_ELAPSED_MS = 60000
 
 /**
  * HTTP client decorator that adds retry logic
@@ -12,48 +26,148 @@ export class RetryHttpClient implements HttpClient {
     private readonly retryPolicy: RetryPolicy
   ) {}
 
-  async request<T>(path: string, options?: RequestInit): Promise<T> {
+  async request<T>(path: string, options?: HttpRequestOptions): Promise<T> {
+    const method = (options?.method ?? 'GET').toUpperCase()
+    const idempotent = options?.idempotent
+      ?? (IDEMPOTENT_METHODS.includes(method) || new Headers(options?.headers).has('idempotency-key'))
+
     return this.retryPolicy.execute(() =>
-      this.innerClient.request<T>(path, options)
+      this.innerClient.request<T>(path, options),
+      { method, idempotent, timeoutMs: options?.timeoutMs, signal: options?.signal ?? undefined }
     )
   }
 }
 
 /**
- * Exponential backoff retry policy
- * Retries failed requests with increasing delays
+ * Retry policy with full-jitter exponential backoff that honours server hints
+ *
+ * - Waits as long as the server asks: retry-after-ms (Azure OpenAI), Retry-After
+ *   (seconds or HTTP date) or, on 429/503, X-RateLimit-Reset (Azure DevOps)
+ * - Otherwise waits a random time up to backoffMs * 2^(attempt-1), capped at maxBackoffMs,
+ *   so clients that failed together do not retry together
+ * - Gives up when the next attempt could still be running after maxElapsedMs
+ *   (its delay plus its full timeout), so the budget stays inside the circuit breaker timeout
+ * - Retries a non-idempotent request only when it cannot have been processed
+ *   (429, or the connection was never established)
+ * - Never retries once the caller's signal has aborted
  */
-export class ExponentialBackoffRetryPolicy implements RetryPolicy {
+export class HeaderAwareRetryPolicy implements RetryPolicy {
   constructor(
-    private readonly maxRetries: number = 3,
-    private readonly backoffMs: number = 1000
+    private readonly config: RetryConfig,
+    private readonly target: string = 'default'  // Metrics label (usually the target host)
   ) {}
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
-    let lastError: unknown = null
+  async execute<T>(fn: () => Promise<T>, request: RetryRequestInfo = { method: 'GET', idempotent: true }): Promise<T> {
+    const startedAt = Date.now()
+    const defaultAttemptTimeoutMs = this.config.attemptTimeoutMs ?? 0
+    const attemptTimeoutMs = request.timeoutMs ?? defaultAttemptTimeoutMs
+    // A longer per-request timeout (e.g. a large upload) extends the budget by the difference
+    const maxElapsedMs = (this.config.maxElapsedMs ?? DEFAULT_MAX_ELAPSED_MS) + Math.max(0, attemptTimeoutMs - defaultAttemptTimeoutMs)
 
-    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+    for (let attempt = 1; ; attempt++) {
       try {
         return await fn()
       } catch (error: unknown) {
-        lastError = error
-        const status = getErrorStatus(error)
-
-        // Don't retry on 4xx errors (except 429 rate limit)
-        if (status && status >= 400 && status < 500 && status !== 429) {
+        if (attempt >= this.config.maxRetries || request.signal?.aborted || !this.isRetryable(error, request)) {
           throw error
         }
 
-        if (attempt < this.maxRetries) {
-          const delay = this.backoffMs * Math.pow(2, attempt - 1)
-          logger.warn(`Retrying after ${delay}ms (attempt ${attempt}/${this.maxRetries})`, {
+        const serverDelay = getServerRetryDelay(error)
+        const delay = serverDelay ?? this.getBackoffDelay(attempt)
+        const elapsedMs = Date.now() - startedAt
+        if (elapsedMs + delay + attemptTimeoutMs > maxElapsedMs) {
+          logger.warn('Not retrying, request would exceed its retry budget', {
+            method: request.method,
+            delay,
+            elapsedMs,
+            attemptTimeoutMs,
+            maxElapsedMs,
             error: getErrorMessage(error),
           })
-          await new Promise(resolve => setTimeout(resolve, delay))
+          throw error
         }
+
+        agentMetrics.httpRetries.inc({ host: this.target })
+        logger.warn(`Retrying after ${delay}ms (attempt ${attempt}/${this.config.maxRetries})`, {
+          method: request.method,
+          status: getErrorStatus(error),
+          serverDelay: serverDelay !== null,
+          error: getErrorMessage(error),
+        })
+        await new Promise(resolve => setTimeout(resolve, delay))
+        request.signal?.throwIfAborted()
       }
     }
+  }
+
+  private isRetryable(error: unknown, request: RetryRequestInfo): boolean {
+    const status = getErrorStatus(error)
+
+    // Rate limited - the server did not process the request
+    if (status === 429) {
+      return true
+    }
+
+    // Network failure or timeout - a request that may have reached the server is only resent if idempotent
+    if (status === undefined) {
+      return request.idempotent || isConnectionError(error)
+    }
 
-    throw lastError
+    return request.idempotent && RETRYABLE_STATUSES.includes(status)
   }
+
+  /**
+   * Full jitter: uniform between 0 and the exponential ceiling
+   */
+  private getBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.config.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS, this.config.backoffMs * Math.pow(2, attempt - 1))
+    return Math.round(Math.random() * ceiling)
+  }
+}
+
+/**
+ * Delay in ms the server asked for before the next attempt, or null if it gave none
+ */
+function getServerRetryDelay(error: unknown): number | null {
+  const retryAfterMs = parseNumber(getErrorHeader(error, 'retry-after-ms'))
+  if (retryAfterMs !== null) {
+    return Math.max(0, Math.round(retryAfterMs))
+  }
+
+  const retryAfter = getErrorHeader(error, 'retry-after')
+  if (retryAfter !== undefined) {
+    const seconds = parseNumber(retryAfter)
+    if (seconds !== null) {
+      return Math.max(0, Math.round(seconds * 1000))
+    }
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now())
+    }
+  }
+
+  // Azure DevOps: epoch seconds when the throttling window resets (also sent on non-throttled responses)
+  const status = getErrorStatus(error)
+  const resetAt = parseNumber(getErrorHeader(error, 'x-ratelimit-reset'))
+  if (resetAt !== null && (status === 429 || status === 503)) {
+    return Math.max(0, Math.round(resetAt * 1000 - Date.now()))
+  }
+
+  return null
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null
+  }
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * The connection failed before any request was sent (fetch wraps the cause)
+ */
+function isConnectionError(error: unknown): boolean {
+  const code = (error as { cause?: { code?: unknown } } | null)?.cause?.code
+  return typeof code === 'string' && CONNECTION_ERROR_CODES.includes(code)
 }
@@ -0,0 +1,45 @@
+import type { HttpClient, HttpRequestOptions } from '../types'
+import { getErrorStatus } from '../../utils/HttpError'
+import { tracer } from '../../tracing/Tracer'
+
+const ABSOLUTE_URL_PATTERN = /^https?:\/\//
+
+/**
+ * HTTP client decorator that records a client span per request
+ * Spans are only created inside an active span (e.g. a task), so background
+ * polling and heartbeats do not start traces of their own.
+ */
+export class TracingHttpClient implements HttpClient {
+  constructor(
+    private readonly innerClient: HttpClient,
+    private readonly host: string,
+    private readonly propagateContext: boolean
+  ) {}
+
+  async request<T>(path: string, options: HttpRequestOptions = {}): Promise<T> {
+    if (!tracer.getActiveSpan()) {
+      return this.innerClient.request<T>(path, options)
+    }
+
+    const method = options.method || 'GET'
+    // Clients without a base URL send absolute URLs
+    const target = ABSOLUTE_URL_PATTERN.test(path) ? new URL(path) : null
+
+    return tracer.startActiveSpan(`HTTP ${method}`, {
+      kind: 'client',
+      attributes: {
+        'http.request.method': method,
+        'server.address': target?.host ?? this.host,
+        'url.path': target?.pathname ?? path.split('?')[0],
+      },
+    }, async span => {
+      try {
+        const headers = this.propagateContext ? tracer.injectTraceparent(options.headers) : options.headers
+        return await this.innerClient.request<T>(path, { ...options, headers })
+      } catch (error: unknown) {
+        span?.setAttribute('http.response.status_code', getErrorStatus(error))
+        throw error
+      }
+    })
+  }
+}
@@ -3,7 +3,17 @@
  * All HTTP implementations and decorators must implement this interface
  */
 export interface HttpClient {
-  request<T>(path: string, options?: RequestInit): Promise<T>
+  request<T>(path: string, options?: HttpRequestOptions): Promise<T>
+}
+
+/**
+ * Request options with a per-request timeout override
+ */
+export interface HttpRequestOptions extends RequestInit {
+  /** Replaces the client timeout for this request (e.g. large uploads) */
+  timeoutMs?: number
+  /** Safe to send twice (e.g. an upsert or a read-only POST) - allows retrying a POST after a server error */
+  idempotent?: boolean
 }
 
 /**
@@ -11,7 +21,8 @@ export interface HttpClient {
  * Provides fault tolerance and fail-fast behavior
  */
 export interface CircuitBreakerPolicy {
-  execute<T>(fn: () => Promise<T>): Promise<T>
+  /** extendMs: extra time on top of the configured timeout (a request with a longer per-attempt timeout) */
+  execute<T>(fn: () => Promise<T>, extendMs?: number): Promise<T>
   getState(): string
   getStats(): CircuitBreakerStats
   reset(): void
@@ -25,6 +36,9 @@ export interface CircuitBreakerStats {
   failureCount: number
   successCount: number
   nextAttemptTime: string | null
+  windowCalls?: number  // Rolling window (sliding_window mode)
+  failureRate?: number
+  slowCallRate?: number
 }
 
 /**
@@ -32,24 +46,36 @@ export interface CircuitBreakerStats {
  * Handles transient failures with configurable retry logic
  */
 export interface RetryPolicy {
-  execute<T>(fn: () => Promise<T>): Promise<T>
+  execute<T>(fn: () => Promise<T>, request?: RetryRequestInfo): Promise<T>
+}
+
+/**
+ * What a retry policy needs to know about the request being retried
+ */
+export interface RetryRequestInfo {
+  method: string
+  idempotent: boolean  // Method is idempotent, the request carries an Idempotency-Key, or the caller marked it
+  timeoutMs?: number  // Per-attempt timeout of this request (default: RetryConfig.attemptTimeoutMs)
+  signal?: AbortSignal  // Caller cancellation - stops retrying
 }
 
 /**
  * Circuit breaker configuration
  * Re-export from utils for convenience
  */
-export interface CircuitBreakerConfig {
-  failureThreshold: number
-  recoveryTimeoutMs: number
-  successThreshold: number
-  timeoutMs: number
-}
+export type { CircuitBreakerConfig } from '../utils/circuit-breaker'
 
 /**
  * Retry configuration
  */
 export interface RetryConfig {
-  maxRetries: number
-  backoffMs: number
+  maxRetries: number  // Total attempts, including the first
+  backoffMs: number  // Base delay - attempt n waits a random time up to backoffMs * 2^(n-1)
+  maxBackoffMs?: number  // Cap on the exponential delay (default: 30000)
+  // Give up instead of retrying when the next attempt could end after this long, counting its full
+  // timeout (default: 60000). Keep it below the circuit breaker timeout, which covers all attempts.
+  maxElapsedMs?: number
+  // Per-attempt timeout of the client; a request with a longer timeout gets the difference added
+  // to maxElapsedMs (default: 0)
+  attemptTimeoutMs?: number
 }
@@ -7,7 +7,9 @@ import dotenv from 'dotenv'
 dotenv.config({ override: true })
 
 import { AgentRuntime } from './runtime/AgentRuntime'
-import { loadConfig, validateConfig } from './config'
+import { MultiWorkspaceRuntime } from './runtime/MultiWorkspaceRuntime'
+import { loadConfig, validateConfig, loadWorkspacesFile, loadNetworkConfigFile, type AgentConfig } from './config'
+import { NetworkDispatchers, redactProxyUrl } from './http/NetworkDispatchers'
 import { logger, flushLogs } from './utils/logger'
 
 /**
@@ -30,14 +32,19 @@ async function main() {
       process.exit(1)
     }
 
+    await loadNetworkSettings(config)
+
     logger.info('Configuration loaded and validated successfully', {
       apiUrl: config.apiUrl,
       pollIntervalMs: config.pollIntervalMs,
       maxConcurrentTasks: config.maxConcurrentTasks,
+      workspacesFile: config.workspacesFile,
+      proxy: redactProxyUrl(config.network.proxy.httpsProxy),
+      caCertFile: config.network.caCertFile,
     })
 
-    // Create and start the agent runtime
-    const agent = new AgentRuntime(config)
+    // Create and start the agent runtime (one per workspace in multi-workspace mode)
+    const agent = await createAgent(config)
 
     // Handle graceful shutdown
     const shutdown = async (signal: string) => {
@@ -69,6 +76,45 @@ async function main() {
   }
 }
 
+/**
+ * Apply NETWORK_CONFIG_FILE over the environment proxy settings and route fetch through them
+ */
+async function loadNetworkSettings(config: AgentConfig): Promise<void> {
+  if (config.networkConfigFile) {
+    const { network, errors } = loadNetworkConfigFile(config.networkConfigFile, config.network)
+    if (!network) {
+      logger.error('Network config file validation failed', { file: config.networkConfigFile })
+      errors.forEach(error => logger.error(`  - ${error}`))
+      flushLogs()
+      await new Promise(resolve => setTimeout(resolve, 500))
+      process.exit(1)
+    }
+    config.network = network
+  }
+
+  NetworkDispatchers.installGlobal(config.network)
+}
+
+/**
+ * Create a single-workspace runtime, or a multi-workspace host when WORKSPACES_FILE is set
+ */
+async function createAgent(config: AgentConfig): Promise<AgentRuntime | MultiWorkspaceRuntime> {
+  if (!config.workspacesFile) {
+    return new AgentRuntime(config)
+  }
+
+  const { workspacesFile, errors } = loadWorkspacesFile(config.workspacesFile, config.maxConcurrentTasks)
+  if (!workspacesFile) {
+    logger.error('Workspaces file validation failed', { file: config.workspacesFile })
+    errors.forEach(error => logger.error(`  - ${error}`))
+    flushLogs()
+    await new Promise(resolve => setTimeout(resolve, 500))
+    process.exit(1)
+  }
+
+  return new MultiWorkspaceRuntime(config, workspacesFile)
+}
+
 // Run main function
 main().catch((error) => {
   logger.error({ err: error }, 'Unhandled error in main')
@@ -0,0 +1,67 @@
+/**
+ * AgentMetrics - Named instruments for agent internals
+ *
+ * All instrumentation goes through these shared metrics so names, labels and
+ * help text are defined in one place.
+ */
+
+import { metricsRegistry } from './MetricsRegistry'
+import { logCollector } from '../services/LogCollector'
+
+// Circuit breaker state as a number for alerting (0 = closed, 1 = half-open, 2 = open)
+export const CIRCUIT_STATE_VALUES: Record<string, number> = {
+  CLOSED: 0,
+  HALF_OPEN: 1,
+  OPEN: 2,
+}
+
+export const agentMetrics = {
+  // Tasks
+  taskExecutions: metricsRegistry.counter(
+    'adno_agent_task_executions_total',
+    'Task executions by task type and outcome'
+  ),
+  taskDuration: metricsRegistry.histogram(
+    'adno_agent_task_duration_seconds',
+    'Task execution duration by task type and outcome'
+  ),
+  pollDuration: metricsRegistry.histogram(
+    'adno_agent_task_poll_duration_seconds',
+    'Task poll request latency (long-poll requests include the wait)'
+  ),
+
+  // HTTP client decorator chain
+  httpRequests: metricsRegistry.counter(
+    'adno_agent_http_requests_total',
+    'HTTP requests by target host and status (each retry attempt counts)'
+  ),
+  httpRequestDuration: metricsRegistry.histogram(
+    'adno_agent_http_request_duration_seconds',
+    'HTTP request duration by target host'
+  ),
+  httpRetries: metricsRegistry.counter(
+    'adno_agent_http_retries_total',
+    'HTTP retries scheduled by the retry policy'
+  ),
+  circuitBreakerTransitions: metricsRegistry.counter(
+    'adno_agent_circuit_breaker_transitions_total',
+    'Circuit breaker state transitions by breaker and target state'
+  ),
+  circuitBreakerState: metricsRegistry.gauge(
+    'adno_agent_circuit_breaker_state',
+    'Current circuit breaker state (0 = closed, 1 = half-open, 2 = open)'
+  ),
+
+  // Log shipping
+  logShippingLag: metricsRegistry.gauge(
+    'adno_agent_log_shipping_lag_bytes',
+    'Bytes written to the current log file that have not been shipped yet',
+    () => [{ value: logCollector.getLagBytes() }]
+  ),
+
+  // Azure OpenAI
+  openAiTokens: metricsRegistry.counter(
+    'adno_agent_openai_tokens_total',
+    'Azure OpenAI tokens used by task type'
+  ),
+}
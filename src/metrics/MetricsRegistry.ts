@@ -0,0 +1,247 @@
+/**
+ * MetricsRegistry - Minimal Prometheus/OpenMetrics instrumentation
+ *
+ * Counters, gauges and histograms with labels, rendered in the Prometheus
+ * text exposition format (version 0.0.4) for the admin /metrics endpoint.
+ */
+
+export type Labels = Record<string, string | number>
+
+// Default histogram buckets in seconds (10ms to 30m) - covers HTTP calls and long syncs
+const DEFAULT_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300, 900, 1800]
+
+/**
+ * Escape a label value for the text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Stable series key and rendered label set for a label object
+ */
+function formatLabels(labels: Labels = {}): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))
+  if (entries.length === 0) {
+    return ''
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(String(value))}"`).join(',')}}`
+}
+
+/**
+ * A single metric update, forwarded from a worker thread to the main thread
+ */
+export interface MetricUpdate {
+  name: string
+  op: 'inc' | 'set' | 'observe'
+  labels?: Labels
+  value: number
+}
+
+type MetricForwarder = (update: MetricUpdate) => void
+
+interface Metric {
+  readonly name: string
+  readonly help: string
+  readonly type: 'counter' | 'gauge' | 'histogram'
+  forwarder: MetricForwarder | null
+  collect(): string[]
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter implements Metric {
+  readonly type = 'counter'
+  forwarder: MetricForwarder | null = null
+  private values: Map<string, number> = new Map()
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels?: Labels, value: number = 1): void {
+    if (this.forwarder) {
+      this.forwarder({ name: this.name, op: 'inc', labels, value })
+      return
+    }
+    const key = formatLabels(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + value)
+  }
+
+  collect(): string[] {
+    return Array.from(this.values.entries()).map(([labels, value]) => `${this.name}${labels} ${value}`)
+  }
+}
+
+/**
+ * Value that can go up and down
+ * An optional collector computes the value at scrape time
+ */
+export class Gauge implements Metric {
+  readonly type = 'gauge'
+  forwarder: MetricForwarder | null = null
+  private values: Map<string, number> = new Map()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collector?: () => Array<{ labels?: Labels; value: number }>
+  ) {}
+
+  set(labels: Labels | undefined, value: number): void {
+    if (this.forwarder) {
+      this.forwarder({ name: this.name, op: 'set', labels, value })
+      return
+    }
+    this.values.set(formatLabels(labels), value)
+  }
+
+  collect(): string[] {
+    if (this.collector) {
+      for (const { labels, value } of this.collector()) {
+        this.set(labels, value)
+      }
+    }
+    return Array.from(this.values.entries()).map(([labels, value]) => `${this.name}${labels} ${value}`)
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels
+  bucketCounts: number[]
+  sum: number
+  count: number
+}
+
+/**
+ * Distribution of observed values (e.g. durations in seconds)
+ */
+export class Histogram implements Metric {
+  readonly type = 'histogram'
+  forwarder: MetricForwarder | null = null
+  private series: Map<string, HistogramSeries> = new Map()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels | undefined, value: number): void {
+    if (this.forwarder) {
+      this.forwarder({ name: this.name, op: 'observe', labels, value })
+      return
+    }
+    const key = formatLabels(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { labels: labels ?? {}, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series!.bucketCounts[i]++
+      }
+    })
+    series.sum += value
+    series.count++
+  }
+
+  /**
+   * Start a timer; call the returned function to observe the elapsed seconds
+   */
+  startTimer(labels?: Labels): (extraLabels?: Labels) => void {
+    const start = process.hrtime.bigint()
+    return (extraLabels?: Labels) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9
+      this.observe({ ...labels, ...extraLabels }, seconds)
+    }
+  }
+
+  collect(): string[] {
+    const lines: string[] = []
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: bound })} ${series.bucketCounts[i]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`)
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`)
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * Registry of named metrics
+ * Registering an existing name returns the existing metric
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map()
+  private forwarder: MetricForwarder | null = null
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help))
+  }
+
+  gauge(name: string, help: string, collector?: () => Array<{ labels?: Labels; value: number }>): Gauge {
+    return this.register(name, () => new Gauge(name, help, collector))
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets))
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = []
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`)
+      lines.push(`# TYPE ${metric.name} ${metric.type}`)
+      lines.push(...metric.collect())
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * Send every update to the forwarder instead of recording it locally
+   * Used in worker threads, whose metrics are only visible from the main thread
+   */
+  forwardTo(forwarder: MetricForwarder): void {
+    this.forwarder = forwarder
+    for (const metric of this.metrics.values()) {
+      metric.forwarder = forwarder
+    }
+  }
+
+  /**
+   * Record an update forwarded from a worker thread
+   * Updates for unknown metrics are ignored
+   */
+  apply(update: MetricUpdate): void {
+    const metric = this.metrics.get(update.name)
+    if (metric instanceof Counter && update.op === 'inc') {
+      metric.inc(update.labels, update.value)
+    } else if (metric instanceof Gauge && update.op === 'set') {
+      metric.set(update.labels, update.value)
+    } else if (metric instanceof Histogram && update.op === 'observe') {
+      metric.observe(update.labels, update.value)
+    }
+  }
+
+  private register<T extends Metric>(name: string, create: () => T): T {
+    const existing = this.metrics.get(name)
+    if (existing) {
+      return existing as T
+    }
+    const metric = create()
+    metric.forwarder = this.forwarder
+    this.metrics.set(name, metric)
+    return metric
+  }
+}
+
+// Export singleton instance
+export const metricsRegistry = new MetricsRegistry()
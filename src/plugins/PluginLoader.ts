@@ -0,0 +1,222 @@
+/**
+ * PluginLoader - Discovers custom task handlers shipped outside the agent
+ *
+ * A plugin is a directory (or npm package) containing an `adno-plugin.json`
+ * manifest next to a CommonJS module:
+ *
+ *   adno-plugin.json  { "type": "hygiene", "version": "1.0.0", "main": "index.js",
+ *                       "requiredConfig": ["HYGIENE_RULES_URL"], "timeoutMs": 120000 }
+ *   index.js          module.exports.createHandler = (pluginConfig) => ({ execute(task, context) { ... } })
+ *
+ * `requiredConfig` names environment variables that must be set; their values are
+ * passed to createHandler. Invalid plugins are logged and skipped so one bad
+ * plugin cannot stop the agent.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type { TaskHandler } from '../runtime/TaskExecutor'
+import { logger } from '../utils/logger'
+import { getErrorMessage } from '../utils/HttpError'
+
+const MANIFEST_FILE = 'adno-plugin.json'
+
+// Backend task types are lowercase identifiers
+const TASK_TYPE_PATTERN = /^[a-z][a-z0-9_-]{0,62}$/
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?$/
+
+/**
+ * Contents of adno-plugin.json
+ */
+export interface TaskPluginManifest {
+  type: string
+  version: string
+  main?: string  // Entry module relative to the manifest (default: index.js)
+  description?: string
+  requiredConfig?: string[]  // Environment variables the handler needs
+  timeoutMs?: number  // Execution deadline used when the backend sends none
+}
+
+/**
+ * What a plugin module must export
+ */
+export interface TaskPluginModule {
+  createHandler(pluginConfig: Record<string, string>): TaskHandler
+}
+
+/**
+ * A validated plugin with its handler instance
+ */
+export interface LoadedPlugin {
+  manifest: TaskPluginManifest
+  source: string  // Directory or package name the plugin was loaded from
+  handler: TaskHandler
+}
+
+/**
+ * Error thrown when a plugin manifest or module is invalid
+ */
+export class PluginValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    reason: string
+  ) {
+    super(`Invalid plugin ${source}: ${reason}`)
+    this.name = 'PluginValidationError'
+  }
+}
+
+export class PluginLoader {
+  constructor(
+    private readonly pluginDir: string | undefined,
+    private readonly pluginPackages: string[],
+    private readonly reservedTypes: string[]
+  ) {}
+
+  /**
+   * Discover, validate and instantiate all configured plugins
+   * Plugins with a type that is built in or already loaded are rejected
+   */
+  load(): LoadedPlugin[] {
+    const loaded: LoadedPlugin[] = []
+    const takenTypes = new Set(this.reservedTypes)
+
+    for (const { source, manifestPath } of this.discover()) {
+      try {
+        const plugin = this.loadPlugin(source, manifestPath, takenTypes)
+        takenTypes.add(plugin.manifest.type)
+        loaded.push(plugin)
+        logger.info('Loaded task plugin', {
+          type: plugin.manifest.type,
+          version: plugin.manifest.version,
+          source,
+        })
+      } catch (error: unknown) {
+        logger.error('Failed to load task plugin, skipping', { source, error: getErrorMessage(error) })
+      }
+    }
+
+    return loaded
+  }
+
+  /**
+   * Find manifests in the plugin directory (one plugin per subdirectory) and npm packages
+   */
+  private discover(): Array<{ source: string; manifestPath: string }> {
+    const found: Array<{ source: string; manifestPath: string }> = []
+
+    if (this.pluginDir) {
+      if (!fs.existsSync(this.pluginDir)) {
+        logger.warn('Plugin directory does not exist', { pluginDir: this.pluginDir })
+      } else {
+        for (const entry of fs.readdirSync(this.pluginDir, { withFileTypes: true })) {
+          const manifestPath = path.join(this.pluginDir, entry.name, MANIFEST_FILE)
+          if (entry.isDirectory() && fs.existsSync(manifestPath)) {
+            found.push({ source: path.join(this.pluginDir, entry.name), manifestPath })
+          }
+        }
+      }
+    }
+
+    for (const packageName of this.pluginPackages) {
+      try {
+        // Resolve from the working directory so packages installed next to the agent are found
+        const manifestPath = require.resolve(`${packageName}/${MANIFEST_FILE}`, { paths: [process.cwd()] })
+        found.push({ source: packageName, manifestPath })
+      } catch {
+        logger.error('Plugin package not found or has no manifest', { package: packageName, manifest: MANIFEST_FILE })
+      }
+    }
+
+    return found
+  }
+
+  /**
+   * Validate a manifest, load its module and create the handler
+   */
+  private loadPlugin(source: string, manifestPath: string, takenTypes: Set<string>): LoadedPlugin {
+    let raw: any
+    try {
+      raw = JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+    } catch (error: unknown) {
+      throw new PluginValidationError(source, `cannot read ${MANIFEST_FILE}: ${getErrorMessage(error)}`)
+    }
+
+    const manifest = this.validateManifest(source, raw)
+    if (takenTypes.has(manifest.type)) {
+      throw new PluginValidationError(source, `task type "${manifest.type}" is already registered`)
+    }
+
+    const pluginConfig = this.resolvePluginConfig(source, manifest)
+
+    const modulePath = path.resolve(path.dirname(manifestPath), manifest.main ?? 'index.js')
+    const loadedModule = require(modulePath)
+    const pluginModule: Partial<TaskPluginModule> = loadedModule?.default ?? loadedModule
+
+    if (typeof pluginModule?.createHandler !== 'function') {
+      throw new PluginValidationError(source, `${modulePath} does not export createHandler()`)
+    }
+
+    const handler = pluginModule.createHandler(pluginConfig)
+    if (typeof handler?.execute !== 'function') {
+      throw new PluginValidationError(source, 'createHandler() did not return an object with execute()')
+    }
+
+    return { manifest, source, handler }
+  }
+
+  /**
+   * Check manifest fields and types
+   */
+  private validateManifest(source: string, raw: any): TaskPluginManifest {
+    if (!raw || typeof raw !== 'object') {
+      throw new PluginValidationError(source, 'manifest must be a JSON object')
+    }
+    if (typeof raw.type !== 'string' || !TASK_TYPE_PATTERN.test(raw.type)) {
+      throw new PluginValidationError(source, 'type must be a lowercase identifier (a-z, 0-9, _ or -)')
+    }
+    if (typeof raw.version !== 'string' || !VERSION_PATTERN.test(raw.version)) {
+      throw new PluginValidationError(source, 'version must be a semantic version (e.g. 1.0.0)')
+    }
+    if (raw.main !== undefined && typeof raw.main !== 'string') {
+      throw new PluginValidationError(source, 'main must be a string')
+    }
+    if (raw.requiredConfig !== undefined && (!Array.isArray(raw.requiredConfig) || !raw.requiredConfig.every((key: unknown) => typeof key === 'string'))) {
+      throw new PluginValidationError(source, 'requiredConfig must be an array of environment variable names')
+    }
+    if (raw.timeoutMs !== undefined && (typeof raw.timeoutMs !== 'number' || raw.timeoutMs <= 0)) {
+      throw new PluginValidationError(source, 'timeoutMs must be a positive number')
+    }
+
+    return {
+      type: raw.type,
+      version: raw.version,
+      main: raw.main,
+      description: typeof raw.description === 'string' ? raw.description : undefined,
+      requiredConfig: raw.requiredConfig,
+      timeoutMs: raw.timeoutMs,
+    }
+  }
+
+  /**
+   * Collect required config values from the environment
+   */
+  private resolvePluginConfig(source: string, manifest: TaskPluginManifest): Record<string, string> {
+    const pluginConfig: Record<string, string> = {}
+    const missing: string[] = []
+
+    for (const key of manifest.requiredConfig ?? []) {
+      const value = process.env[key]
+      if (value) {
+        pluginConfig[key] = value
+      } else {
+        missing.push(key)
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new PluginValidationError(source, `missing required config: ${missing.join(', ')}`)
+    }
+    return pluginConfig
+  }
+}
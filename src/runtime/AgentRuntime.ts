@@ -1,44 +1,161 @@
+import * as os from 'os'
+import { createHash } from 'crypto'
 import type { AgentConfig } from '../config'
-import { BackendApiClient, type AgentTask, type AgentConfigResponse, type WorkspaceConfigResponse, type WorkerSettings, type CreateTaskRequest } from '../api/BackendApiClient'
-import { HttpClientFactory } from '../http/HttpClientFactory'
-import { InMemoryConfigVersionStore } from '../state/ConfigVersionStore'
+import { BackendApiClient, type AgentTask, type AgentCapabilities, type AgentConfigResponse, type WorkspaceConfigResponse, type WorkerSettings, type CreateTaskRequest, type RegistrationResult } from '../api/BackendApiClient'
+import { HttpClientRegistry } from '../http/HttpClientRegistry'
+import { PersistentConfigVersionStore } from '../state/ConfigVersionStore'
+import { FileStateStore } from '../state/StateStore'
+import { ConfigCache } from '../state/ConfigCache'
+import { Outbox } from '../state/Outbox'
+import { AgentIdentityStore } from '../state/AgentIdentityStore'
+import { CircuitState, type CircuitBreaker } from '../utils/circuit-breaker'
 import { TaskExecutor } from './TaskExecutor'
+import { TaskScheduler } from './TaskScheduler'
+import type { ConcurrencyBudget } from './ConcurrencyBudget'
+import { TaskLease, TaskLeaseLostError, DEFAULT_LEASE_RENEWAL_MS } from './TaskLease'
+import { Watchdog, TaskTimeoutError } from './Watchdog'
+import { CommandDispatcher, TaskCancelledError } from './CommandDispatcher'
 import { VersionChecker } from '../version/VersionChecker'
-import { logger, setLogLevel, getLogLevel } from '../utils/logger'
+import { AdminServer, type ProbeResult } from '../admin/AdminServer'
+import { QuotaManager, QuotaExceededError, type QuotaReservation } from '../services/QuotaManager'
+import { logger, setLogLevel, getLogLevel, withLogContext } from '../utils/logger'
 import { getErrorMessage } from '../utils/HttpError'
+import { agentMetrics } from '../metrics/AgentMetrics'
+import { tracer, type Span } from '../tracing/Tracer'
+import { createSpanExporters } from '../tracing/exporters'
+import { PluginLoader, type LoadedPlugin } from '../plugins/PluginLoader'
+import { getLogCollector } from '../services/LogCollector'
+import { CredentialsRejectedError, type Integration } from '../tasks/CredentialsRejectedError'
 
 type WorkerType = 'fetcher' | 'suggestion' | 'apply' | 'logger' | 'maintain'
 
+// Long-poll wait is capped below the HTTP client timeout per attempt (30s)
+const LONG_POLL_MAX_WAIT_MS = 25000
+// An empty long-poll response faster than this means the backend did not hold the request
+const LONG_POLL_MIN_HOLD_MS = 1000
+// Fall back to interval polling after this many consecutive unheld responses
+const LONG_POLL_MAX_FAST_RETURNS = 3
+// Delay between long-poll attempts when a request was not held
+const LONG_POLL_RETRY_DELAY_MS = 5000
+
+// How often queued submissions are replayed (each entry also has its own backoff)
+const OUTBOX_REPLAY_INTERVAL_MS = 15000
+
+// How often a runtime started from cached config retries the backend
+const RECONCILE_INTERVAL_MS = 30000
+
+// Fallback workspace config re-fetch for backends that do not report its version on polls
+const WORKSPACE_CONFIG_REFRESH_INTERVAL_MS = 15 * 60 * 1000
+// Minimum time between re-fetches triggered by ADO/OpenAI rejecting the credentials
+const CREDENTIALS_REFRESH_MIN_INTERVAL_MS = 60 * 1000
+// Minimum time between re-fetches triggered by a workspace_config_version on a poll
+const VERSION_REFRESH_MIN_INTERVAL_MS = 60 * 1000
+
+// Backoff between instance registration retries (doubles per failure, from heartbeats)
+const REGISTRATION_RETRY_MIN_MS = 60 * 1000
+const REGISTRATION_RETRY_MAX_MS = 30 * 60 * 1000
+
+// Workspace config fields that make up each integration's credentials
+const INTEGRATION_CREDENTIAL_FIELDS: Record<Integration, Array<keyof WorkspaceConfigResponse>> = {
+  ado: ['ado_organization', 'ado_project', 'ado_pat_token'],
+  openai: ['azure_openai_endpoint', 'azure_openai_deployment', 'azure_openai_api_key'],
+}
+
+// Outcome label for task execution metrics
+type TaskOutcome = 'completed' | 'failed' | 'timeout' | 'cancelled' | 'lease_lost' | 'quota_deferred' | 'not_claimed'
+
+// Tasks returned by one poll, and how many of them were started
+interface PollResult {
+  received: number
+  dispatched: number
+}
+
 /**
  * Main agent runtime that manages task polling, execution, and lifecycle
  *
  * Architecture:
  * - Heartbeat: 30s/60s/2m - Health signals only
  * - Task Poll: 5m/15m/60m - Check queue + config piggyback
+ * - Long-Poll: Optional push-style delivery when the backend advertises it;
+ *   the interval poll keeps running as a fallback
+ * - Dispatch: Tasks run in the background; a finished task refills its slot
+ *   immediately while the queue still has work
+ * - Scheduling: Priority/scheduled_at ordering with per-task-type slot limits
  * - Worker Schedulers: Per-worker intervals for creating tasks
+ * - Watchdog: Per-type task timeouts and restart of stalled heartbeat/poll loops
+ * - Commands: Operator commands delivered with the task poll (cancel, pause, drain, ...)
+ * - Admin Server: Optional localhost /healthz, /readyz and /status endpoints
+ * - Plugins: Custom task handlers loaded at startup and advertised to the backend
+ * - Capabilities: Runnable task types sent with every poll; mismatched tasks are left unclaimed
+ * - Degraded start: If the backend is unreachable at startup, the last-known-good config is
+ *   used and the backend is retried until the runtime can reconcile
+ * - Identity: Persistent instance ID registered at startup and sent with every signal,
+ *   claim and task result
+ * - Multi-workspace: When hosted by MultiWorkspaceRuntime, task slots also come from a
+ *   process-wide ConcurrencyBudget and the host owns tracing and the admin server
  */
 export class AgentRuntime {
   private config: AgentConfig
   private apiClient: BackendApiClient
+  private httpClients: HttpClientRegistry
+  private circuitBreaker: CircuitBreaker
   private taskExecutor: TaskExecutor
+  private taskScheduler: TaskScheduler
+  private watchdog: Watchdog
+  private quotaManager: QuotaManager
+  private commandDispatcher: CommandDispatcher
   private versionChecker: VersionChecker
+  private adminServer: AdminServer | null = null
+  private plugins: LoadedPlugin[] = []
+  private concurrencyBudget: ConcurrencyBudget | null
+  private configCache: ConfigCache
+  private logContext: Record<string, string>  // Tags every line logged by this runtime
 
   private isRunning: boolean = false
   private isShuttingDown: boolean = false
+  private isPaused: boolean = false  // Operator pause/drain - running tasks continue, no new dispatch
+  private isDraining: boolean = false  // Operator drain - schedulers stay stopped until resume
+  private isAuthenticated: boolean = false
+  private registration: RegistrationResult | null = null  // Failed registrations are retried from heartbeats
+  private registrationFailures: number = 0
+  private nextRegistrationAttemptAt: number = 0
+  private isDegraded: boolean = false  // Started from cached config while the backend was unreachable
+  private startedAt: number = 0
 
   // Separate intervals for different concerns
   private heartbeatInterval: NodeJS.Timeout | null = null
   private taskPollInterval: NodeJS.Timeout | null = null
+  private outboxReplayInterval: NodeJS.Timeout | null = null
+  private reconcileInterval: NodeJS.Timeout | null = null
+  private workspaceConfigRefreshInterval: NodeJS.Timeout | null = null
+  private workspaceConfigRefresh: Promise<void> | null = null  // In-flight refresh, shared by concurrent triggers
+  private lastCredentialsRefreshAt: number = 0
+  private lastVersionRefreshAt: number = 0
+  private unmatchedWorkspaceConfigVersion: string | null = null  // Polled version a re-fetch did not return
+  private reportedCredentialFailures: Set<string> = new Set()  // integration:fingerprint already reported as failing
+  private isReplayingOutbox: boolean = false
   private workerSchedulers: Map<WorkerType, NodeJS.Timeout> = new Map()
 
   private backendConfig: AgentConfigResponse | null = null
   private workspaceConfig: WorkspaceConfigResponse | null = null
   private activeTasks: Set<string> = new Set()
+  private advertisedCapabilities: string | null = null  // JSON of the last capabilities signal
 
   // Exponential backoff state for polling failures
   private consecutivePollingFailures: number = 0
   private currentTaskPollIntervalMs: number = 0
 
+  // Continuous dispatch state
+  private isPolling: boolean = false
+  private pollRequested: boolean = false
+  private pollGeneration: number = 0  // Bumped per poll and by the watchdog - results of older polls are dropped
+  private hasQueuedTasks: boolean = false
+  private slotWaiters: Array<() => void> = []
+
+  // Long-poll delivery state
+  private isLongPolling: boolean = false
+  private longPollSuspendedUntil: number = 0
+
   // Stuck detection timestamps
   private lastPollTime: number = 0
   private lastHeartbeatTime: number = 0
@@ -46,55 +163,103 @@ export class AgentRuntime {
   // Task cancellation controllers
   private activeTaskControllers: Map<string, AbortController> = new Map()
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, concurrencyBudget?: ConcurrencyBudget) {
     this.config = config
-
-    // Create HTTP client with decorator chain (logging → circuit breaker → retry → fetch)
-    const httpClient = HttpClientFactory.createResilientClient({
-      baseURL: config.apiUrl,
-      apiKey: config.apiKey,
-      timeoutMs: 30000,
-      circuitBreaker: {
-        failureThreshold: 5,
-        recoveryTimeoutMs: 60000,
-        successThreshold: 2,
-        timeoutMs: 30000,
-      },
-      retry: {
-        maxRetries: 3,
-        backoffMs: 1000,
-      },
+    this.concurrencyBudget = concurrencyBudget ?? null
+
+    // Clients for the backend, ADO and Azure OpenAI (decorator chain with per-target policies)
+    // shared by the API client and task handlers
+    this.httpClients = new HttpClientRegistry(config)
+    // Backend breaker - the runtime uses it to see when the backend is reachable again
+    this.circuitBreaker = this.httpClients.getBackendCircuitBreaker()
+    this.httpClients.onCircuitBreakerStateChange(change => {
+      void this.apiClient.sendCircuitBreakerStateChange(change)
     })
 
-    // Create config version store
-    const configVersionStore = new InMemoryConfigVersionStore()
+    // Durable runtime state (config version, log shipping position) under the data directory
+    const stateStore = new FileStateStore(config.dataDir)
+    const configVersionStore = new PersistentConfigVersionStore(stateStore)
+    getLogCollector(config.workspaceName).setStateStore(stateStore)
 
-    // Create API client with injected dependencies
-    this.apiClient = new BackendApiClient(httpClient, configVersionStore)
+    // Last-known-good backend config for starting while the backend is down
+    this.configCache = new ConfigCache(stateStore, config.apiKey)
+
+    // Durable queue for results/failures/signals the backend did not receive
+    const outbox = new Outbox(config.dataDir)
 
-    this.taskExecutor = new TaskExecutor(config, this.apiClient)
+    // Persistent instance ID - tags every log line and backend submission
+    const identity = new AgentIdentityStore(config.dataDir).loadOrCreate()
+    this.logContext = config.workspaceName
+      ? { workspace: config.workspaceName, instanceId: identity.instanceId }
+      : { instanceId: identity.instanceId }
+
+    // Create API client with injected dependencies
+    this.apiClient = new BackendApiClient(this.httpClients.get('backend'), configVersionStore, identity.instanceId, outbox)
+
+    this.quotaManager = new QuotaManager()
+    this.taskExecutor = new TaskExecutor(config, this.apiClient, this.httpClients, this.quotaManager)
+    this.taskScheduler = new TaskScheduler()
+    this.watchdog = new Watchdog()
+    this.commandDispatcher = new CommandDispatcher(this.apiClient, {
+      cancelTask: (taskId, reason) => this.cancelTask(taskId, reason),
+      pause: () => this.pause(),
+      resume: () => this.resume(),
+      drain: () => this.drain(),
+      forceSync: (workerType) => this.forceSync(workerType),
+      resetCircuitBreaker: () => this.httpClients.resetCircuitBreakers(),
+      setLogLevel: (level) => setLogLevel(level),
+      getDiagnostics: () => this.getDiagnostics(),
+    })
     this.versionChecker = new VersionChecker(config)
+    // A multi-workspace host configures the shared tracer once for all runtimes
+    if (!config.workspaceName) {
+      this.configureTracing()
+    }
+    this.loadPlugins()
     // Default task poll interval (will be updated from backend config)
     this.currentTaskPollIntervalMs = 300000 // 5 minutes default
   }
 
   /**
    * Start the agent runtime
+   * Everything the runtime starts (loops, tasks) logs with its instance and workspace tags
+   */
+  start(): Promise<void> {
+    return withLogContext(this.logContext, () => this.startRuntime())
+  }
+
+  /**
+   * Stop the agent runtime gracefully
    */
-  async start(): Promise<void> {
+  stop(): Promise<void> {
+    return withLogContext(this.logContext, () => this.stopRuntime())
+  }
+
+  private async startRuntime(): Promise<void> {
     logger.info('Starting agent runtime...')
+    if (this.config.dryRun) {
+      logger.warn('Dry-run mode: tasks report intended writes instead of making them')
+    }
+
+    // Slots freed by other workspaces may let this one start queued tasks
+    this.concurrencyBudget?.register(this.getBudgetMember(), () => this.onSlotFreed())
 
     try {
-      const authenticated = await this.apiClient.authenticate()
-      if (!authenticated) {
+      const authResult = await this.apiClient.authenticate()
+      if (authResult === 'rejected') {
         throw new Error('Failed to authenticate with backend')
       }
 
-      await this.loadWorkspaceConfig()
-
-      await this.loadConfig()
+      if (authResult === 'authenticated') {
+        await this.connectToBackend()
+      } else if (!this.startFromCache()) {
+        throw new Error('Failed to authenticate with backend and no cached configuration is available')
+      }
 
+      // While degraded this signal is queued in the outbox and delivered on reconnect
       logger.info('Sending agent_starting signal...')
+      const capabilities = this.getCapabilities()
+      this.advertisedCapabilities = JSON.stringify(capabilities)
       const startingSignalSent = await this.apiClient.sendSignal({
         category: 'event',
         type: 'agent_starting',
@@ -103,14 +268,25 @@ export class AgentRuntime {
           version: process.env.npm_package_version || '1.0.0',
           nodeVersion: process.version,
           platform: process.platform,
+          capabilities,
+          degraded: this.isDegraded,
         },
       })
       logger.info('Agent_starting signal sent', { success: startingSignalSent })
 
       this.isRunning = true
+      this.startedAt = Date.now()
       this.startHeartbeat()
       this.startTaskPolling()
+      this.startLongPolling()
       this.startWorkerSchedulers()
+      this.startWatchdog()
+      this.startOutboxReplay()
+      this.startWorkspaceConfigRefresh()
+      if (this.isDegraded) {
+        this.startReconcile()
+      }
+      await this.startAdminServer()
 
       logger.info('Agent runtime started successfully')
     } catch (error) {
@@ -120,10 +296,7 @@ export class AgentRuntime {
     }
   }
 
-  /**
-   * Stop the agent runtime gracefully
-   */
-  async stop(): Promise<void> {
+  private async stopRuntime(): Promise<void> {
     if (this.isShuttingDown) {
       return
     }
@@ -133,12 +306,23 @@ export class AgentRuntime {
 
     this.isRunning = false
 
+    this.watchdog.stop()
+
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval)
     }
     if (this.taskPollInterval) {
       clearInterval(this.taskPollInterval)
     }
+    if (this.outboxReplayInterval) {
+      clearInterval(this.outboxReplayInterval)
+    }
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval)
+    }
+    if (this.workspaceConfigRefreshInterval) {
+      clearInterval(this.workspaceConfigRefreshInterval)
+    }
     // Clear all worker schedulers
     for (const [workerType, interval] of this.workerSchedulers.entries()) {
       clearInterval(interval)
@@ -146,10 +330,13 @@ export class AgentRuntime {
     }
     this.workerSchedulers.clear()
 
+    // Release a long-poll loop waiting for a free slot so it can exit
+    this.notifySlotWaiters()
+
     logger.info(`Signalling ${this.activeTaskControllers.size} active tasks to cancel...`)
     for (const [taskId, controller] of this.activeTaskControllers.entries()) {
       logger.debug('Aborting task', { taskId })
-      controller.abort()
+      controller.abort(new Error('Task cancelled during shutdown'))
     }
 
     const SHUTDOWN_TIMEOUT = 30000 // 30 seconds
@@ -166,6 +353,8 @@ export class AgentRuntime {
       })
     }
 
+    await this.adminServer?.stop()
+
     await this.apiClient.sendSignal({
       category: 'event',
       type: 'agent_stopping',
@@ -175,26 +364,229 @@ export class AgentRuntime {
       },
     })
 
+    await this.taskExecutor.shutdown()
+    if (!this.config.workspaceName) {
+      await tracer.shutdown()
+    }
+
     logger.info('Agent runtime stopped')
   }
 
+  /**
+   * Build the capability set advertised to the backend
+   */
+  private getCapabilities(): AgentCapabilities {
+    const workers = this.backendConfig ? Object.entries(this.backendConfig.workers) : []
+
+    return {
+      version: this.versionChecker.getCurrentVersion(),
+      supported_task_types: this.taskExecutor.getRunnableTypes(),
+      enabled_workers: workers.filter(([, settings]) => settings.enabled).map(([type]) => type),
+      integrations: this.taskExecutor.getIntegrations(),
+      plugins: this.plugins.map(p => ({ type: p.manifest.type, version: p.manifest.version })),
+    }
+  }
+
+  /**
+   * Send an agent_capabilities signal when capabilities changed since the last one
+   * (e.g. an integration was configured in the admin portal)
+   */
+  private advertiseCapabilitiesIfChanged(capabilities: AgentCapabilities): void {
+    const serialized = JSON.stringify(capabilities)
+    if (serialized === this.advertisedCapabilities) {
+      return
+    }
+
+    this.advertisedCapabilities = serialized
+    logger.info('Agent capabilities changed', { supportedTaskTypes: capabilities.supported_task_types })
+
+    this.apiClient.sendSignal({
+      category: 'event',
+      type: 'agent_capabilities',
+      payload: { capabilities },
+    }).catch((error) => {
+      logger.error({ err: error }, 'Failed to send capabilities signal')
+    })
+  }
+
+  /**
+   * Skip a task this agent cannot run - it stays unclaimed for an agent that can
+   */
+  private refuseTask(task: AgentTask, reason: string): void {
+    logger.warn('Skipping task this agent cannot run', { taskId: task.id, type: task.type, reason })
+  }
+
+  /**
+   * Load task plugins and register their handlers
+   */
+  private loadPlugins(): void {
+    if (!this.config.pluginDir && this.config.pluginPackages.length === 0) {
+      return
+    }
+
+    const loader = new PluginLoader(
+      this.config.pluginDir,
+      this.config.pluginPackages,
+      this.taskExecutor.getSupportedTypes()
+    )
+
+    this.plugins = loader.load()
+    for (const plugin of this.plugins) {
+      this.taskExecutor.registerHandler(plugin.manifest.type, plugin.handler)
+      if (plugin.manifest.timeoutMs) {
+        this.watchdog.setDefaultTimeout(plugin.manifest.type, plugin.manifest.timeoutMs)
+      }
+    }
+  }
+
+  /**
+   * Configure span exporters from config (tracing stays off when none are set)
+   */
+  private configureTracing(): void {
+    tracer.configure(createSpanExporters(this.config), {
+      serviceName: this.config.serviceName,
+      serviceVersion: this.versionChecker.getCurrentVersion(),
+    })
+  }
+
+  /**
+   * Register and load workspace and agent config from the backend
+   * Used at startup and when a degraded runtime reconnects
+   */
+  private async connectToBackend(): Promise<void> {
+    this.isAuthenticated = true
+
+    await this.registerInstance()
+
+    await this.loadWorkspaceConfig()
+
+    await this.loadConfig()
+  }
+
+  /**
+   * Register this instance with the backend
+   * Workspace and agent IDs come from the registration, so a failure is retried
+   * from heartbeats with backoff instead of failing startup. A backend without the
+   * endpoint is not asked again.
+   */
+  private async registerInstance(): Promise<void> {
+    this.registration = await this.apiClient.registerInstance({
+      hostname: os.hostname(),
+      labels: this.config.agentLabels,
+      version: this.versionChecker.getCurrentVersion(),
+      platform: process.platform,
+      arch: process.arch,
+      node_version: process.version,
+    })
+
+    if (this.registration !== 'failed') {
+      this.registrationFailures = 0
+      return
+    }
+
+    this.registrationFailures++
+    const retryInMs = Math.min(REGISTRATION_RETRY_MAX_MS, REGISTRATION_RETRY_MIN_MS * Math.pow(2, this.registrationFailures - 1))
+    this.nextRegistrationAttemptAt = Date.now() + retryInMs
+    logger.warn('Instance registration failed, will retry', { attempt: this.registrationFailures, retryInMs })
+  }
+
+  /**
+   * Enter degraded mode with the last-known-good config
+   * Returns false when no usable cached workspace config exists
+   */
+  private startFromCache(): boolean {
+    const workspace = this.configCache.getWorkspaceConfig()
+    if (!workspace) {
+      return false
+    }
+    const agent = this.configCache.getAgentConfig()
+
+    logger.warn('Backend unreachable, starting in degraded mode with cached configuration', {
+      workspaceConfigSavedAt: workspace.savedAt,
+      agentConfigSavedAt: agent?.savedAt ?? null,
+    })
+
+    this.isDegraded = true
+    this.setWorkspaceConfig(workspace.config)
+    if (agent) {
+      this.applyConfig(agent.config)
+    }
+    return true
+  }
+
+  /**
+   * Retry the backend until a degraded runtime can reconnect
+   */
+  private startReconcile(): void {
+    this.reconcileInterval = setInterval(() => {
+      this.reconcile().catch((error) => {
+        logger.error({ err: error }, 'Failed to reconcile with backend')
+      })
+    }, RECONCILE_INTERVAL_MS)
+  }
+
+  /**
+   * Leave degraded mode once the backend accepts the API key again
+   * Fresh config replaces the cached config; queued submissions are replayed by the outbox loop
+   */
+  private async reconcile(): Promise<void> {
+    if (!this.isDegraded || !this.isRunning || this.isShuttingDown) {
+      return
+    }
+
+    if (await this.apiClient.authenticate() !== 'authenticated') {
+      logger.debug('Backend still unavailable, staying in degraded mode')
+      return
+    }
+
+    await this.connectToBackend()
+
+    this.isDegraded = false
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval)
+      this.reconcileInterval = null
+    }
+
+    const degradedForMs = Date.now() - this.startedAt
+    logger.info('Reconnected to backend, leaving degraded mode', { degradedForMs })
+    await this.apiClient.sendSignal({
+      category: 'event',
+      type: 'agent_reconnected',
+      message: 'Agent reconnected after starting from cached configuration',
+      payload: { degradedForMs },
+    })
+  }
+
   /**
    * Load workspace configuration (ADO/OpenAI credentials) from backend
+   * Falls back to the current or cached config when the backend cannot provide it
    */
   private async loadWorkspaceConfig(): Promise<void> {
     logger.info('Loading workspace configuration from backend...')
 
     const config = await this.apiClient.getWorkspaceConfig()
     if (!config) {
+      if (this.workspaceConfig) {
+        logger.warn('Failed to load workspace config from backend, keeping current configuration')
+        return
+      }
+
+      const cached = this.configCache.getWorkspaceConfig()
+      if (cached) {
+        logger.warn('Failed to load workspace config from backend, using cached configuration', { savedAt: cached.savedAt })
+        this.setWorkspaceConfig(cached.config)
+        return
+      }
+
       logger.warn('Failed to load workspace config from backend')
       throw new Error('Workspace configuration is required but could not be loaded')
     }
 
-    this.workspaceConfig = config
-
-    this.taskExecutor.setWorkspaceConfig(config)
+    this.setWorkspaceConfig(config)
+    this.configCache.saveWorkspaceConfig(config)
 
     logger.info('Workspace configuration loaded', {
+      version: config.version,
       ado_configured: config.config_status.ado_configured,
       openai_configured: config.config_status.openai_configured,
     })
@@ -208,6 +600,161 @@ export class AgentRuntime {
     }
   }
 
+  /**
+   * Swap in a new workspace config - new tasks use it, running tasks keep theirs
+   */
+  private setWorkspaceConfig(config: WorkspaceConfigResponse): void {
+    this.workspaceConfig = config
+    this.taskExecutor.setWorkspaceConfig(config)
+  }
+
+  /**
+   * Periodically re-fetch the workspace config
+   * Backends that report workspace_config_version on polls trigger a refresh sooner
+   */
+  private startWorkspaceConfigRefresh(): void {
+    this.workspaceConfigRefreshInterval = setInterval(() => {
+      if (this.isDegraded || this.isShuttingDown) {
+        return
+      }
+      void this.refreshWorkspaceConfig('periodic')
+    }, WORKSPACE_CONFIG_REFRESH_INTERVAL_MS)
+  }
+
+  /**
+   * Re-fetch the workspace config and swap it in if it changed
+   * Concurrent callers share one request. Never throws - on failure the current config is kept.
+   */
+  private refreshWorkspaceConfig(reason: 'version_changed' | 'periodic' | 'credentials_rejected'): Promise<void> {
+    if (!this.workspaceConfigRefresh) {
+      this.workspaceConfigRefresh = this.fetchWorkspaceConfigUpdate(reason)
+        .catch((error) => {
+          logger.error({ err: error, reason }, 'Failed to refresh workspace config')
+        })
+        .finally(() => {
+          this.workspaceConfigRefresh = null
+        })
+    }
+    return this.workspaceConfigRefresh
+  }
+
+  /**
+   * Re-fetch the workspace config when a poll reports a different version
+   * Rate-limited, and a version that a re-fetch did not return is left to the periodic
+   * refresh - otherwise a lagging backend would block every poll on a fetch
+   */
+  private async handleWorkspaceConfigVersion(latest: string): Promise<void> {
+    if (latest === this.workspaceConfig?.version || latest === this.unmatchedWorkspaceConfigVersion) {
+      return
+    }
+    if (Date.now() - this.lastVersionRefreshAt < VERSION_REFRESH_MIN_INTERVAL_MS) {
+      return
+    }
+
+    logger.info('Workspace config version changed', {
+      current: this.workspaceConfig?.version,
+      latest,
+    })
+    this.lastVersionRefreshAt = Date.now()
+    await this.refreshWorkspaceConfig('version_changed')
+
+    if (this.workspaceConfig?.version !== latest) {
+      logger.warn('Re-fetched workspace config does not have the polled version, waiting for the periodic refresh', {
+        current: this.workspaceConfig?.version,
+        latest,
+      })
+      this.unmatchedWorkspaceConfigVersion = latest
+    }
+  }
+
+  private async fetchWorkspaceConfigUpdate(reason: string): Promise<void> {
+    const config = await this.apiClient.getWorkspaceConfig()
+    if (!config) {
+      logger.warn('Failed to refresh workspace config, keeping current configuration', { reason })
+      return
+    }
+
+    const previous = this.workspaceConfig
+    if (previous && JSON.stringify(previous) === JSON.stringify(config)) {
+      logger.debug('Workspace config unchanged', { reason, version: config.version })
+      return
+    }
+
+    const changedIntegrations = (Object.keys(INTEGRATION_CREDENTIAL_FIELDS) as Integration[])
+      .filter(integration => this.getCredentialFingerprint(previous, integration) !== this.getCredentialFingerprint(config, integration))
+
+    this.setWorkspaceConfig(config)
+    this.configCache.saveWorkspaceConfig(config)
+    logger.info('Workspace configuration refreshed', {
+      reason,
+      previousVersion: previous?.version,
+      version: config.version,
+      changedCredentials: changedIntegrations,
+    })
+
+    if (changedIntegrations.length > 0) {
+      await this.apiClient.sendSignal({
+        category: 'event',
+        type: 'credentials_changed',
+        message: `Workspace credentials updated: ${changedIntegrations.join(', ')}`,
+        payload: {
+          integrations: changedIntegrations,
+          version: config.version,
+          reason,
+        },
+      })
+    }
+  }
+
+  /**
+   * ADO or Azure OpenAI refused the credentials a task ran with
+   * Re-fetches the workspace config in case they were rotated; credentials that are
+   * still current are reported once with a credentials_failed signal
+   */
+  private async handleCredentialsRejected(error: CredentialsRejectedError, usedConfig: WorkspaceConfigResponse | null): Promise<void> {
+    const fingerprint = this.getCredentialFingerprint(usedConfig, error.integration)
+
+    if (Date.now() - this.lastCredentialsRefreshAt >= CREDENTIALS_REFRESH_MIN_INTERVAL_MS) {
+      this.lastCredentialsRefreshAt = Date.now()
+      await this.refreshWorkspaceConfig('credentials_rejected')
+    }
+
+    if (this.getCredentialFingerprint(this.workspaceConfig, error.integration) !== fingerprint) {
+      logger.info('Rejected credentials have been replaced, retries use the new workspace config', { integration: error.integration })
+      return
+    }
+
+    const failureKey = `${error.integration}:${fingerprint}`
+    if (this.reportedCredentialFailures.has(failureKey)) {
+      return
+    }
+    this.reportedCredentialFailures.add(failureKey)
+
+    logger.error('Workspace credentials rejected and no replacement is available', {
+      integration: error.integration,
+      status: error.status,
+    })
+    await this.apiClient.sendSignal({
+      category: 'event',
+      type: 'credentials_failed',
+      severity: 'error',
+      message: error.message,
+      payload: {
+        integration: error.integration,
+        status: error.status,
+        version: this.workspaceConfig?.version,
+      },
+    })
+  }
+
+  /**
+   * Hash of an integration's credential fields, to detect rotation without keeping secrets around
+   */
+  private getCredentialFingerprint(config: WorkspaceConfigResponse | null, integration: Integration): string {
+    const values = INTEGRATION_CREDENTIAL_FIELDS[integration].map(field => config?.[field] ?? null)
+    return createHash('sha256').update(JSON.stringify(values)).digest('hex')
+  }
+
   /**
    * Load configuration from backend
    */
@@ -216,10 +763,17 @@ export class AgentRuntime {
 
     const config = await this.apiClient.getConfig()
     if (!config) {
-      logger.warn('Failed to load config from backend, using defaults')
+      const cached = this.backendConfig ? null : this.configCache.getAgentConfig()
+      if (cached) {
+        logger.warn('Failed to load config from backend, using cached configuration', { savedAt: cached.savedAt })
+        this.applyConfig(cached.config)
+      } else {
+        logger.warn('Failed to load config from backend, using current configuration or defaults')
+      }
       return
     }
 
+    this.configCache.saveAgentConfig(config)
     this.applyConfig(config)
   }
 
@@ -235,6 +789,15 @@ export class AgentRuntime {
     // Update task executor with backend config (needed for worker settings like max_items)
     this.taskExecutor.setBackendConfig(config)
 
+    // Update per-type concurrency limits (applies to the next dispatch)
+    this.taskScheduler.setLimits(config.workers)
+
+    // Update per-type task timeouts (applies to running tasks too)
+    this.watchdog.setTaskTimeouts(config.workers)
+
+    // Update hourly limits enforced by handlers
+    this.quotaManager.setLimits(config.limits)
+
     // Get enabled workers for logging
     const enabledWorkers = Object.entries(config.workers)
       .filter(([_, settings]) => settings.enabled)
@@ -253,7 +816,12 @@ export class AgentRuntime {
     // Update intervals if changed
     if (!isInitial) {
       this.updateIntervals(config, oldConfig)
-      this.updateWorkerSchedulers(config.workers, oldConfig?.workers)
+      // A drained agent starts the schedulers from the current config on resume
+      if (!this.isDraining) {
+        this.updateWorkerSchedulers(config.workers, oldConfig?.workers)
+      }
+      // Start long-poll if newly advertised (the loop exits by itself when disabled)
+      this.startLongPolling()
     }
 
     this.updateWorkerSettings(config.workers)
@@ -347,6 +915,188 @@ export class AgentRuntime {
     }
   }
 
+  /**
+   * Abort a running task on operator request
+   */
+  private cancelTask(taskId: string, reason?: string): boolean {
+    const controller = this.activeTaskControllers.get(taskId)
+    if (!controller) {
+      return false
+    }
+
+    controller.abort(new TaskCancelledError(taskId, reason))
+    return true
+  }
+
+  /**
+   * Stop dispatching new tasks (running tasks continue)
+   */
+  private pause(): void {
+    this.isPaused = true
+    logger.warn('Task dispatch paused by operator', { activeTasks: this.activeTasks.size })
+  }
+
+  /**
+   * Resume dispatching after pause or drain
+   */
+  private resume(): void {
+    const wasPaused = this.isPaused
+    this.isPaused = false
+
+    // Drain stops the schedulers - bring back the enabled ones
+    if (this.isDraining) {
+      this.isDraining = false
+      this.startWorkerSchedulers()
+    }
+
+    if (wasPaused) {
+      logger.info('Task dispatch resumed by operator')
+      this.requestRefill()
+    }
+  }
+
+  /**
+   * Stop taking new work and stop creating scheduled tasks; running tasks finish
+   */
+  private drain(): { activeTasks: number } {
+    this.isPaused = true
+    this.isDraining = true
+    for (const workerType of Array.from(this.workerSchedulers.keys())) {
+      this.stopWorkerScheduler(workerType)
+    }
+
+    logger.warn('Agent draining by operator request', { activeTasks: this.activeTasks.size })
+    return { activeTasks: this.activeTasks.size }
+  }
+
+  /**
+   * Create a task for a worker immediately and pick it up
+   * Only scheduled workers - suggestion and apply tasks need a candidate_id
+   */
+  private async forceSync(workerType: string): Promise<void> {
+    const workerTypes: WorkerType[] = ['fetcher', 'logger', 'maintain']
+    if (!workerTypes.includes(workerType as WorkerType)) {
+      throw new Error(`Cannot force sync worker type: ${workerType} (supported: ${workerTypes.join(', ')})`)
+    }
+
+    const unavailableReason = this.taskExecutor.getUnavailableReason(workerType)
+    if (unavailableReason) {
+      throw new Error(`Cannot run ${workerType} tasks: ${unavailableReason}`)
+    }
+
+    await this.createScheduledTask(workerType as WorkerType)
+    this.requestRefill()
+  }
+
+  /**
+   * Snapshot of runtime state for dump_diagnostics
+   */
+  private getDiagnostics(): Record<string, any> {
+    return {
+      instanceId: this.apiClient.getInstanceId(),
+      version: this.versionChecker.getCurrentVersion(),
+      uptimeMs: this.startedAt ? Date.now() - this.startedAt : 0,
+      paused: this.isPaused,
+      degraded: this.isDegraded,
+      dryRun: this.config.dryRun,
+      workspaceConfigVersion: this.workspaceConfig?.version ?? null,
+      activeTasks: Array.from(this.activeTasks),
+      scheduler: this.taskScheduler.getStats(),
+      taskPollIntervalMs: this.currentTaskPollIntervalMs,
+      heartbeatIntervalMs: this.config.heartbeatIntervalMs,
+      longPolling: this.isLongPolling,
+      lastPollTime: this.lastPollTime ? new Date(this.lastPollTime).toISOString() : null,
+      lastHeartbeatTime: this.lastHeartbeatTime ? new Date(this.lastHeartbeatTime).toISOString() : null,
+      workerSchedulers: Array.from(this.workerSchedulers.keys()),
+      supportedTaskTypes: this.taskExecutor.getSupportedTypes(),
+      plugins: this.plugins.map(p => ({ type: p.manifest.type, version: p.manifest.version, source: p.source })),
+      circuitBreakers: this.httpClients.getCircuitBreakerStats(),
+      quota: this.quotaManager.getStatus(),
+      outboxSize: this.apiClient.getOutboxSize(),
+      configVersion: this.backendConfig?.version ?? null,
+      logLevel: getLogLevel(),
+      memory: process.memoryUsage(),
+    }
+  }
+
+  /**
+   * Start the local admin server if ADMIN_PORT is set
+   * A failure to listen is logged but does not stop the agent
+   */
+  private async startAdminServer(): Promise<void> {
+    if (this.config.adminPort === undefined) {
+      return
+    }
+
+    const server = new AdminServer({
+      getHealth: () => this.getHealth(),
+      getReadiness: () => this.getReadiness(),
+      getStatus: () => this.getStatus(),
+    }, this.config.adminPort, this.config.adminHost)
+
+    try {
+      await server.start()
+      this.adminServer = server
+    } catch (error) {
+      logger.error({ err: error, port: this.config.adminPort }, 'Failed to start admin server')
+    }
+  }
+
+  /**
+   * Liveness: the heartbeat and task poll loops are still iterating
+   */
+  getHealth(): ProbeResult {
+    const loops = this.watchdog.getLoopHealth()
+    const stalled = Object.entries(loops).filter(([, health]) => health.stalled).map(([name]) => name)
+
+    return {
+      ok: this.isRunning && stalled.length === 0,
+      checks: {
+        running: this.isRunning,
+        stalledLoops: stalled,
+        lastPollTime: this.lastPollTime ? new Date(this.lastPollTime).toISOString() : null,
+        lastHeartbeatTime: this.lastHeartbeatTime ? new Date(this.lastHeartbeatTime).toISOString() : null,
+      },
+    }
+  }
+
+  /**
+   * Readiness: authenticated, workspace config loaded and backend circuit not open
+   */
+  getReadiness(): ProbeResult {
+    const checks = {
+      authenticated: this.isAuthenticated,
+      degraded: this.isDegraded,
+      workspaceConfigLoaded: this.workspaceConfig !== null,
+      circuitBreakerState: this.circuitBreaker.getState(),
+    }
+
+    return {
+      ok: checks.authenticated && checks.workspaceConfigLoaded && checks.circuitBreakerState !== CircuitState.OPEN,
+      checks,
+    }
+  }
+
+  /**
+   * Runtime snapshot for the admin /status endpoint
+   */
+  getStatus(): Record<string, any> {
+    const workerIntervals: Record<string, number> = {}
+    for (const workerType of this.workerSchedulers.keys()) {
+      workerIntervals[workerType] = this.getScheduleInterval(this.backendConfig?.workers[workerType])
+    }
+
+    return {
+      ...this.getDiagnostics(),
+      workspace: this.apiClient.getWorkspaceContext(),
+      intervals: {
+        heartbeatMs: this.config.heartbeatIntervalMs,
+        taskPollMs: this.currentTaskPollIntervalMs,
+        workers: workerIntervals,
+      },
+    }
+  }
+
   /**
    * Start sending heartbeats
    */
@@ -358,6 +1108,61 @@ export class AgentRuntime {
     this.sendHeartbeat()
   }
 
+  /**
+   * Start the watchdog for task timeouts and stalled loops
+   */
+  private startWatchdog(): void {
+    this.watchdog.watchLoop('heartbeat', {
+      getLastRunTime: () => this.lastHeartbeatTime,
+      getIntervalMs: () => this.config.heartbeatIntervalMs,
+      restart: () => {
+        if (this.heartbeatInterval) {
+          clearInterval(this.heartbeatInterval)
+        }
+        this.startHeartbeat()
+      },
+    })
+
+    this.watchdog.watchLoop('task_poll', {
+      getLastRunTime: () => this.lastPollTime,
+      getIntervalMs: () => Math.max(this.currentTaskPollIntervalMs, this.backendConfig?.task_poll_interval_ms ?? 0),
+      restart: () => {
+        // A hung poll leaves isPolling set and coalesces every later poll - clear it,
+        // and make it stale so its response (if it ever arrives) is ignored
+        this.pollGeneration++
+        this.isPolling = false
+        this.pollRequested = false
+        if (this.taskPollInterval) {
+          clearInterval(this.taskPollInterval)
+        }
+        this.startTaskPolling()
+      },
+    })
+
+    this.watchdog.start()
+  }
+
+  /**
+   * Start replaying queued submissions
+   * Skips rounds while the circuit breaker is open - polls and heartbeats probe recovery
+   */
+  private startOutboxReplay(): void {
+    this.outboxReplayInterval = setInterval(async () => {
+      if (this.isReplayingOutbox || this.apiClient.getOutboxSize() === 0 || this.circuitBreaker.getState() === CircuitState.OPEN) {
+        return
+      }
+
+      this.isReplayingOutbox = true
+      try {
+        await this.apiClient.replayOutbox()
+      } catch (error) {
+        logger.error({ err: error }, 'Outbox replay failed')
+      } finally {
+        this.isReplayingOutbox = false
+      }
+    }, OUTBOX_REPLAY_INTERVAL_MS)
+  }
+
   /**
    * Start polling for tasks
    * Uses task_poll_interval_ms from config
@@ -369,6 +1174,8 @@ export class AgentRuntime {
     this.taskPollInterval = setInterval(async () => {
       if (this.isRunning && !this.isShuttingDown) {
         await this.pollAndExecuteTasks()
+        // Resume long-poll after a fallback suspension has expired
+        this.startLongPolling()
       }
     }, intervalMs)
 
@@ -444,6 +1251,13 @@ export class AgentRuntime {
    * Deduplication is handled by the backend (returns 'already_pending' if task exists)
    */
   private async createScheduledTask(workerType: WorkerType): Promise<void> {
+    // Tasks this agent would refuse only churn through the queue
+    const unavailableReason = this.taskExecutor.getUnavailableReason(workerType)
+    if (unavailableReason) {
+      logger.debug('Skipping scheduled task this agent cannot run', { workerType, reason: unavailableReason })
+      return
+    }
+
     try {
       const request: CreateTaskRequest = {
         type: workerType,
@@ -511,12 +1325,18 @@ export class AgentRuntime {
    */
   private async sendHeartbeat(): Promise<void> {
     try {
+      // A degraded runtime registers when it reconnects (see reconcile)
+      if (this.registration === 'failed' && !this.isDegraded && Date.now() >= this.nextRegistrationAttemptAt) {
+        await this.registerInstance()
+      }
+
       logger.debug('Sending heartbeat...')
       const sent = await this.apiClient.sendSignal({
         category: 'event',
         type: 'heartbeat',
         payload: {
           version: this.versionChecker.getCurrentVersion(),
+          quota: this.quotaManager.getStatus(),
         },
       })
       logger.debug('Heartbeat sent', { success: sent })
@@ -528,82 +1348,415 @@ export class AgentRuntime {
   }
 
   /**
-   * Poll for tasks and execute them
+   * Poll for tasks and dispatch them into free slots
    * Also handles config updates via piggyback
+   *
+   * Dispatched tasks run in the background - the poll does not wait for them.
+   * Only one poll runs at a time; requests made while a poll is in flight are
+   * coalesced into a single follow-up poll.
+   *
+   * @param waitMs Long-poll wait passed to the backend (interval polls omit it)
+   * @returns Tasks received from the backend and tasks dispatched (the rest were deferred or refused)
    */
-  private async pollAndExecuteTasks(): Promise<void> {
+  private async pollAndExecuteTasks(waitMs?: number): Promise<PollResult> {
+    if (this.isPolling) {
+      this.pollRequested = true
+      return { received: 0, dispatched: 0 }
+    }
+
+    this.isPolling = true
     this.lastPollTime = Date.now()
+    const generation = ++this.pollGeneration
 
     try {
-      const availableSlots = this.config.maxConcurrentTasks - this.activeTasks.size
+      const localSlots = this.isPaused ? 0 : this.config.maxConcurrentTasks - this.activeTasks.size
+      const availableSlots = this.getAvailableSlots()
+      // Free local slots held back by the shared budget of a multi-workspace agent
+      const budgetBlocked = availableSlots <= 0 && localSlots > 0
+
+      // With no free slots, still poll (limit=0) so config updates and operator
+      // commands such as cancel_task reach a busy or paused agent
+      // Otherwise fetch a lookahead window of up to max_concurrent_tasks so the scheduler
+      // can pick by priority and skip types that are already at their limit
+      // When only the shared budget is full, peek at one task to tell the budget this
+      // workspace is waiting (tasks returned by a poll are not claimed)
+      const limit = availableSlots > 0
+        ? Math.max(availableSlots, this.config.maxConcurrentTasks)
+        : (budgetBlocked ? 1 : 0)
+
       if (availableSlots <= 0) {
-        logger.debug('No available task slots', {
+        logger.debug('No available task slots, polling for config and commands only', {
           active: this.activeTasks.size,
           max: this.config.maxConcurrentTasks,
+          paused: this.isPaused,
+          budgetBlocked,
         })
-        // Reset failure count even when at capacity (successful connection)
-        if (this.consecutivePollingFailures > 0) {
-          this.consecutivePollingFailures = 0
-          this.resetTaskPollingInterval()
-        }
-        return
       }
 
+      const capabilities = this.getCapabilities()
+      this.advertiseCapabilitiesIfChanged(capabilities)
+
       // Get tasks with potential config piggyback
-      const response = await this.apiClient.getTasks(availableSlots)
+      const stopPollTimer = agentMetrics.pollDuration.startTimer({ long_poll: String(availableSlots > 0 && !!waitMs) })
+      const response = await this.apiClient.getTasks(limit, availableSlots > 0 ? waitMs : undefined, capabilities)
+      stopPollTimer()
+
+      // The watchdog replaced this poll while it hung - a newer poll owns the slots now
+      if (generation !== this.pollGeneration) {
+        logger.warn('Ignoring response of a poll replaced by the watchdog', { tasks: response.tasks.length })
+        return { received: 0, dispatched: 0 }
+      }
 
       // Handle config update if piggybacked
       if (response.config) {
         logger.info('Received config update via piggyback', { version: response.config.version })
+        this.configCache.saveAgentConfig(response.config)
         this.applyConfig(response.config)
       }
 
-      const tasks = response.tasks
+      // Workspace config changed (e.g. rotated credentials) - re-fetch before dispatching
+      if (response.workspace_config_version) {
+        await this.handleWorkspaceConfigVersion(response.workspace_config_version)
+      }
 
+      // Operator commands run in the background so a slow command never delays dispatch
+      if (response.commands && response.commands.length > 0) {
+        this.commandDispatcher.dispatch(response.commands).catch((error) => {
+          logger.error({ err: error }, 'Failed to dispatch operator commands')
+        })
+      }
+
+      // A long-poll may return after shutdown started - leave tasks in the queue
+      // (or the watchdog may have replaced it while the workspace config was re-fetched)
+      if (!this.isRunning || this.isShuttingDown || generation !== this.pollGeneration) {
+        return { received: 0, dispatched: 0 }
+      }
+
+      // Config/commands-only poll - any tasks returned stay unclaimed in the queue
+      if (availableSlots <= 0) {
+        if (budgetBlocked) {
+          this.hasQueuedTasks = response.tasks.length > 0
+          this.concurrencyBudget?.setWaiting(this.getBudgetMember(), this.hasQueuedTasks)
+        }
+        // Reset failure count even when at capacity (successful connection)
+        if (this.consecutivePollingFailures > 0) {
+          this.consecutivePollingFailures = 0
+          this.resetTaskPollingInterval()
+        }
+        return { received: 0, dispatched: 0 }
+      }
+
+      // Backends that ignore the types filter may still send tasks this agent cannot run -
+      // leave them unclaimed instead of claiming and failing them
+      const tasks = response.tasks.filter(task => {
+        const reason = this.taskExecutor.getUnavailableReason(task.type)
+        if (reason) {
+          this.refuseTask(task, reason)
+        }
+        return reason === null
+      })
+
+      let dispatched = 0
       if (tasks.length === 0) {
+        this.hasQueuedTasks = false
+        this.concurrencyBudget?.setWaiting(this.getBudgetMember(), false)
         logger.debug('No pending tasks')
       } else {
-        logger.info(`Found ${tasks.length} pending tasks`, {
+        // Leave tasks whose hourly budget is spent in the queue - they are retried on later polls
+        const withinQuota = tasks.filter(t => this.quotaManager.canRunTaskType(t.type))
+        const overQuota = tasks.filter(t => !withinQuota.includes(t))
+
+        const { selected, deferred } = this.taskScheduler.selectTasks(withinQuota, availableSlots)
+
+        // A full window or deferred tasks mean more work is waiting in the queue
+        this.hasQueuedTasks = tasks.length >= limit || deferred.length > 0
+        this.concurrencyBudget?.setWaiting(this.getBudgetMember(), this.hasQueuedTasks && availableSlots < localSlots)
+
+        // Info only when something starts - a poll that defers everything repeats until a slot frees up
+        const log = selected.length > 0 ? logger.info.bind(logger) : logger.debug.bind(logger)
+        log(`Found ${tasks.length} pending tasks`, {
           availableSlots,
-          tasks: tasks.map(t => ({ id: t.id, type: t.type })),
+          tasks: selected.map(t => ({ id: t.id, type: t.type, priority: t.priority })),
+          deferred: deferred.map(t => ({ id: t.id, type: t.type, priority: t.priority })),
         })
 
-        const tasksToExecute = tasks.slice(0, availableSlots)
-        await Promise.allSettled(
-          tasksToExecute.map(task => this.executeTask(task))
-        )
+        if (overQuota.length > 0) {
+          logger.warn('Deferring tasks over hourly limit', {
+            tasks: overQuota.map(t => ({ id: t.id, type: t.type })),
+            quota: this.quotaManager.getStatus(),
+          })
+        }
+
+        // Re-check per task: each dispatch reserves budget, so a window of similar tasks can run out
+        for (const task of selected) {
+          if (!this.quotaManager.canRunTaskType(task.type)) {
+            logger.debug('Deferring task, hourly budget reserved by running tasks', { taskId: task.id, type: task.type })
+            continue
+          }
+          this.dispatchTask(task)
+          dispatched++
+        }
       }
 
       if (this.consecutivePollingFailures > 0) {
         this.consecutivePollingFailures = 0
         this.resetTaskPollingInterval()
       }
+
+      return { received: response.tasks.length, dispatched }
     } catch (error) {
       logger.error('Error in task polling', { error })
 
-      this.consecutivePollingFailures++
-      this.restartTaskPollingWithBackoff()
+      // A stale poll's failure says nothing about the current one
+      if (generation === this.pollGeneration) {
+        this.consecutivePollingFailures++
+        this.restartTaskPollingWithBackoff()
+      }
+      return { received: 0, dispatched: 0 }
+    } finally {
+      // A newer poll may be in flight - leave its state alone
+      if (generation === this.pollGeneration) {
+        this.isPolling = false
+
+        if (this.pollRequested) {
+          this.pollRequested = false
+          this.requestRefill()
+        }
+      }
     }
   }
 
   /**
-   * Execute a single task
+   * Check whether the backend advertises long-poll task delivery
    */
-  private async executeTask(task: AgentTask): Promise<void> {
+  private isLongPollEnabled(): boolean {
+    return this.backendConfig?.task_delivery?.mode === 'long_poll'
+  }
+
+  /**
+   * Long-poll wait, capped below the HTTP timeouts
+   */
+  private getLongPollWaitMs(): number {
+    const advertised = this.backendConfig?.task_delivery?.long_poll_wait_ms ?? LONG_POLL_MAX_WAIT_MS
+    return Math.min(advertised, LONG_POLL_MAX_WAIT_MS)
+  }
+
+  /**
+   * Start the long-poll loop if the backend advertises it and it is not already running
+   */
+  private startLongPolling(): void {
+    if (this.isLongPolling || !this.isRunning || this.isShuttingDown) {
+      return
+    }
+    if (!this.isLongPollEnabled() || Date.now() < this.longPollSuspendedUntil) {
+      return
+    }
+
+    this.runLongPollLoop().catch((error) => {
+      logger.error({ err: error }, 'Long-poll loop failed, falling back to interval polling')
+    })
+  }
+
+  /**
+   * Keep a long-poll request open whenever a slot is free
+   * Falls back to interval polling if the backend does not hold requests
+   */
+  private async runLongPollLoop(): Promise<void> {
+    this.isLongPolling = true
+    logger.info('Long-poll task delivery started', { waitMs: this.getLongPollWaitMs() })
+
+    let fastReturns = 0
+
+    try {
+      while (this.isRunning && !this.isShuttingDown && this.isLongPollEnabled()) {
+        // Paused agents only need the interval poll for commands
+        if (this.isPaused) {
+          await new Promise(resolve => setTimeout(resolve, LONG_POLL_RETRY_DELAY_MS))
+          continue
+        }
+
+        if (this.getAvailableSlots() <= 0) {
+          await this.waitForFreeSlot()
+          continue
+        }
+
+        // Another poll is in flight - it will fill the slots
+        if (this.isPolling) {
+          await new Promise(resolve => setTimeout(resolve, LONG_POLL_RETRY_DELAY_MS))
+          continue
+        }
+
+        const startedAt = Date.now()
+        const { received, dispatched } = await this.pollAndExecuteTasks(this.getLongPollWaitMs())
+
+        if (dispatched > 0 || Date.now() - startedAt >= LONG_POLL_MIN_HOLD_MS) {
+          fastReturns = 0
+          continue
+        }
+
+        // Only tasks that cannot start yet (type limit, hourly quota) - the backend answers at once
+        // while they are pending, so wait for a running task to finish or the next poll interval
+        if (received > 0) {
+          fastReturns = 0
+          await Promise.race([
+            this.waitForFreeSlot(),
+            new Promise(resolve => setTimeout(resolve, this.currentTaskPollIntervalMs)),
+          ])
+          continue
+        }
+
+        // Empty response that was not held: backend error or no long-poll support
+        fastReturns++
+        if (fastReturns >= LONG_POLL_MAX_FAST_RETURNS) {
+          this.longPollSuspendedUntil = Date.now() + this.currentTaskPollIntervalMs
+          logger.warn('Long-poll requests are not being held, falling back to interval polling', {
+            resumeAt: new Date(this.longPollSuspendedUntil).toISOString(),
+          })
+          return
+        }
+        await new Promise(resolve => setTimeout(resolve, LONG_POLL_RETRY_DELAY_MS))
+      }
+    } finally {
+      this.isLongPolling = false
+      logger.info('Long-poll task delivery stopped')
+    }
+  }
+
+  /**
+   * Start a task in the background, reserving its slot and quota immediately
+   * Both are reserved before the claim so concurrent polls never over-commit
+   */
+  private dispatchTask(task: AgentTask): void {
+    this.activeTasks.add(task.id)
+    this.taskScheduler.acquire(task)
+    this.concurrencyBudget?.acquire(this.getBudgetMember())
+    const quota = this.quotaManager.reserve(task.type)
+
+    this.executeTask(task, quota)
+      .catch((error) => {
+        logger.error({ err: error, taskId: task.id }, 'Unexpected error in task dispatch')
+      })
+      .finally(() => {
+        this.activeTasks.delete(task.id)
+        quota.release()
+        this.taskScheduler.release(task)
+        this.concurrencyBudget?.release(this.getBudgetMember())
+        this.onSlotFreed()
+      })
+  }
+
+  /**
+   * Task slots free for dispatch: the local limit, capped by the shared budget if any
+   */
+  private getAvailableSlots(): number {
+    if (this.isPaused) {
+      return 0
+    }
+    const localSlots = this.config.maxConcurrentTasks - this.activeTasks.size
+    return this.concurrencyBudget
+      ? Math.min(localSlots, this.concurrencyBudget.getAvailable(this.getBudgetMember()))
+      : localSlots
+  }
+
+  /**
+   * Name of this runtime in the shared concurrency budget
+   */
+  private getBudgetMember(): string {
+    return this.config.workspaceName ?? 'default'
+  }
+
+  /**
+   * Refill a freed slot straight away when the queue is known to have more work
+   * Otherwise the next poll tick picks up new tasks
+   */
+  private onSlotFreed(): void {
+    this.notifySlotWaiters()
+
+    if (this.hasQueuedTasks && !this.isPaused) {
+      this.requestRefill()
+    }
+  }
+
+  /**
+   * Wake anything waiting for a slot to free up
+   */
+  private notifySlotWaiters(): void {
+    const waiters = this.slotWaiters
+    this.slotWaiters = []
+    waiters.forEach(resolve => resolve())
+  }
+
+  /**
+   * Wait until a running task finishes
+   */
+  private waitForFreeSlot(): Promise<void> {
+    return new Promise(resolve => this.slotWaiters.push(resolve))
+  }
+
+  /**
+   * Trigger an out-of-band poll to fill free slots
+   */
+  private requestRefill(): void {
+    if (!this.isRunning || this.isShuttingDown) {
+      return
+    }
+
+    this.pollAndExecuteTasks()
+  }
+
+  /**
+   * Execute a single task inside a root trace span
+   */
+  private async executeTask(task: AgentTask, quota: QuotaReservation): Promise<void> {
+    await tracer.startActiveSpan(`task ${task.type}`, {
+      root: true,
+      attributes: {
+        'task.id': task.id,
+        'task.type': task.type,
+        'task.priority': task.priority,
+      },
+    }, span => this.runTask(task, span, quota))
+  }
+
+  /**
+   * Claim, run and report a single task
+   */
+  private async runTask(task: AgentTask, span: Span | undefined, quota: QuotaReservation): Promise<void> {
     logger.info('Executing task', { taskId: task.id, type: task.type })
 
     const abortController = new AbortController()
+    let lease: TaskLease | null = null
+    let stopTaskTimer: ((labels?: Record<string, string>) => void) | null = null
+    let outcome: TaskOutcome = 'failed'
+    let workspaceConfig: WorkspaceConfigResponse | null = null  // Config the task runs with
 
     try {
       const claimedTask = await this.apiClient.claimTask(task.id)
       if (!claimedTask) {
         logger.debug('Task already claimed by another agent', { taskId: task.id })
+        outcome = 'not_claimed'
         return
       }
 
-      this.activeTasks.add(task.id)
+      stopTaskTimer = agentMetrics.taskDuration.startTimer({ type: task.type })
+      workspaceConfig = this.workspaceConfig
+
       this.activeTaskControllers.set(task.id, abortController)
 
+      // Only backends that lease tasks (expiry on the claim or a renewal interval in config) get renewals
+      if (claimedTask.lease_expires_at || this.backendConfig?.task_lease_renewal_ms) {
+        lease = new TaskLease(
+          this.apiClient,
+          task.id,
+          abortController,
+          this.backendConfig?.task_lease_renewal_ms ?? DEFAULT_LEASE_RENEWAL_MS,
+          claimedTask.lease_expires_at
+        )
+        lease.start()
+      }
+
+      this.watchdog.trackTask(task, abortController)
+
       await this.apiClient.sendSignal({
         category: 'event',
         type: 'task_started',
@@ -613,14 +1766,14 @@ export class AgentRuntime {
         },
       })
 
-      const result = await this.taskExecutor.execute(claimedTask, abortController.signal)
+      const result = await this.taskExecutor.execute(claimedTask, abortController.signal, quota)
 
       if (abortController.signal.aborted) {
-        logger.warn('Task was cancelled during execution', { taskId: task.id })
-        await this.apiClient.failTask(task.id, 'Task cancelled during shutdown', false)
+        outcome = await this.handleAbortedTask(task, abortController.signal)
         return
       }
 
+      outcome = 'completed'
       await this.apiClient.completeTask(task.id, result)
 
       await this.apiClient.sendSignal({
@@ -638,15 +1791,25 @@ export class AgentRuntime {
       const errorMessage = getErrorMessage(error)
 
       if (abortController.signal.aborted) {
-        logger.warn('Task execution cancelled', {
+        outcome = await this.handleAbortedTask(task, abortController.signal)
+        return
+      }
+
+      if (error instanceof QuotaExceededError) {
+        outcome = 'quota_deferred'
+        // Budget spent between poll and execution - hand the task back for a later retry
+        logger.warn('Task stopped at hourly limit', {
           taskId: task.id,
           type: task.type,
+          quota: error.quota,
+          retryAfterMs: error.retryAfterMs,
         })
-        await this.apiClient.failTask(task.id, 'Task cancelled during shutdown', false)
+        await this.apiClient.failTask(task.id, errorMessage, true)
         return
       }
 
       logger.error({ err: error, taskId: task.id, type: task.type }, 'Task execution failed')
+      span?.recordException(error)
 
       await this.apiClient.failTask(task.id, errorMessage, true)
 
@@ -662,10 +1825,79 @@ export class AgentRuntime {
           stack: error instanceof Error ? error.stack : undefined,
         },
       })
+
+      if (error instanceof CredentialsRejectedError) {
+        await this.handleCredentialsRejected(error, workspaceConfig)
+      }
     } finally {
-      this.activeTasks.delete(task.id)
+      lease?.stop()
+      this.watchdog.untrackTask(task.id)
       this.activeTaskControllers.delete(task.id)
+
+      stopTaskTimer?.({ outcome })
+      agentMetrics.taskExecutions.inc({ type: task.type, outcome })
+
+      span?.setAttribute('task.outcome', outcome)
+      if (outcome === 'timeout') {
+        span?.setStatus('error', 'Task timed out')
+      }
+    }
+  }
+
+  /**
+   * Report a task whose AbortController fired, based on the abort reason
+   * Returns the outcome recorded in metrics
+   */
+  private async handleAbortedTask(task: AgentTask, signal: AbortSignal): Promise<TaskOutcome> {
+    const reason: unknown = signal.reason
+
+    if (reason instanceof TaskLeaseLostError) {
+      // The backend has re-queued the task - it is no longer ours to complete or fail
+      logger.warn('Task abandoned after lease was lost', { taskId: task.id, type: task.type })
+      await this.apiClient.sendSignal({
+        category: 'event',
+        type: 'task_lease_lost',
+        severity: 'warn',
+        message: reason.message,
+        payload: {
+          taskId: task.id,
+          taskType: task.type,
+        },
+      })
+      return 'lease_lost'
     }
+
+    if (reason instanceof TaskCancelledError) {
+      logger.warn('Task cancelled by operator', { taskId: task.id, type: task.type })
+      await this.apiClient.failTask(task.id, reason.message, false)
+      return 'cancelled'
+    }
+
+    if (reason instanceof TaskTimeoutError) {
+      logger.error('Task timed out', { taskId: task.id, type: task.type, timeoutMs: reason.timeoutMs })
+      await this.apiClient.failTask(task.id, reason.message, true)
+      await this.apiClient.sendSignal({
+        category: 'event',
+        type: 'task_timeout',
+        severity: 'error',
+        message: reason.message,
+        payload: {
+          taskId: task.id,
+          taskType: task.type,
+          timeoutMs: reason.timeoutMs,
+        },
+      })
+      return 'timeout'
+    }
+
+    const message = reason instanceof Error ? reason.message : 'Task execution cancelled'
+    logger.warn('Task execution cancelled', {
+      taskId: task.id,
+      type: task.type,
+      reason: message,
+    })
+    await this.apiClient.failTask(task.id, message, false)
+    return 'cancelled'
   }
 
 }
@@ -0,0 +1,166 @@
+import type { BackendApiClient, AgentCommand, AgentCommandType } from '../api/BackendApiClient'
+import { logger } from '../utils/logger'
+import { getErrorMessage } from '../utils/HttpError'
+
+// Remember recently executed command IDs so redelivered commands run only once
+const MAX_REMEMBERED_COMMANDS = 200
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const
+
+/**
+ * Abort reason used when an operator cancels a running task
+ */
+export class TaskCancelledError extends Error {
+  constructor(
+    public readonly taskId: string,
+    reason?: string
+  ) {
+    super(reason ? `Task cancelled by operator: ${reason}` : 'Task cancelled by operator')
+    this.name = 'TaskCancelledError'
+  }
+}
+
+/**
+ * Runtime operations the dispatcher can invoke
+ * Implemented by AgentRuntime
+ */
+export interface CommandHooks {
+  /** Abort a running task; returns false if the task is not running here */
+  cancelTask(taskId: string, reason?: string): boolean
+  pause(): void
+  resume(): void
+  drain(): { activeTasks: number }
+  forceSync(workerType: string): Promise<void>
+  resetCircuitBreaker(): void
+  setLogLevel(level: typeof LOG_LEVELS[number]): void
+  getDiagnostics(): Record<string, any>
+}
+
+/**
+ * Executes operator commands delivered by the backend and acknowledges each one
+ * with a command_result signal
+ */
+export class CommandDispatcher {
+  private executed: string[] = []
+
+  constructor(
+    private readonly apiClient: BackendApiClient,
+    private readonly hooks: CommandHooks
+  ) {}
+
+  /**
+   * Execute commands in order, skipping any already executed
+   */
+  async dispatch(commands: AgentCommand[]): Promise<void> {
+    for (const command of commands) {
+      if (this.executed.includes(command.id)) {
+        logger.debug('Skipping already executed command', { commandId: command.id, type: command.type })
+        continue
+      }
+
+      this.remember(command.id)
+      await this.executeAndAcknowledge(command)
+    }
+  }
+
+  /**
+   * Execute a command and send its outcome
+   */
+  private async executeAndAcknowledge(command: AgentCommand): Promise<void> {
+    logger.info('Executing operator command', { commandId: command.id, type: command.type })
+
+    try {
+      const result = await this.execute(command.type, command.payload ?? {})
+
+      await this.apiClient.sendSignal({
+        category: 'event',
+        type: 'command_result',
+        message: `Command ${command.type} succeeded`,
+        payload: {
+          commandId: command.id,
+          commandType: command.type,
+          status: 'succeeded',
+          result,
+        },
+      })
+    } catch (error: unknown) {
+      const errorMessage = getErrorMessage(error)
+      logger.warn('Operator command failed', { commandId: command.id, type: command.type, error: errorMessage })
+
+      await this.apiClient.sendSignal({
+        category: 'event',
+        type: 'command_result',
+        severity: 'error',
+        message: `Command ${command.type} failed: ${errorMessage}`,
+        payload: {
+          commandId: command.id,
+          commandType: command.type,
+          status: 'failed',
+          error: errorMessage,
+        },
+      })
+    }
+  }
+
+  /**
+   * Route a command to its hook
+   */
+  private async execute(type: AgentCommandType, payload: Record<string, any>): Promise<Record<string, any>> {
+    switch (type) {
+      case 'cancel_task': {
+        if (!payload.task_id) {
+          throw new Error('task_id is required in payload')
+        }
+        if (!this.hooks.cancelTask(payload.task_id, payload.reason)) {
+          throw new Error(`Task ${payload.task_id} is not running on this agent`)
+        }
+        return { taskId: payload.task_id }
+      }
+
+      case 'pause':
+        this.hooks.pause()
+        return {}
+
+      case 'resume':
+        this.hooks.resume()
+        return {}
+
+      case 'drain':
+        return this.hooks.drain()
+
+      case 'force_sync': {
+        const workerType = payload.worker_type ?? 'fetcher'
+        await this.hooks.forceSync(workerType)
+        return { workerType }
+      }
+
+      case 'reset_circuit_breaker':
+        this.hooks.resetCircuitBreaker()
+        return {}
+
+      case 'set_log_level': {
+        if (!LOG_LEVELS.includes(payload.level)) {
+          throw new Error(`Invalid log level: ${payload.level}`)
+        }
+        this.hooks.setLogLevel(payload.level)
+        return { level: payload.level }
+      }
+
+      case 'dump_diagnostics':
+        return this.hooks.getDiagnostics()
+
+      default:
+        throw new Error(`Unknown command type: ${type}`)
+    }
+  }
+
+  /**
+   * Track an executed command ID (bounded)
+   */
+  private remember(commandId: string): void {
+    this.executed.push(commandId)
+    if (this.executed.length > MAX_REMEMBERED_COMMANDS) {
+      this.executed.shift()
+    }
+  }
+}
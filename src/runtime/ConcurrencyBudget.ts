@@ -0,0 +1,117 @@
+import { AsyncResource } from 'async_hooks'
+
+interface BudgetMember {
+  running: number
+  waiting: boolean  // Has queued tasks it could not start because of the budget
+  onRelease: (() => void) | null
+}
+
+/**
+ * Process-wide task slot budget shared by the workspace runtimes of a multi-workspace agent
+ *
+ * Every member has a fair share of floor(limit / members) slots (at least 1).
+ * A member may borrow idle slots beyond its share, but slots that a waiting
+ * member is owed (share minus what it runs) are held back from borrowers, so
+ * a busy workspace cannot starve the others. Freed slots wake the other members.
+ */
+export class ConcurrencyBudget {
+  private members: Map<string, BudgetMember> = new Map()
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Add a member
+   * onRelease is called when another member frees a slot, in the async context
+   * it was registered from (so the member's log context is kept)
+   */
+  register(member: string, onRelease?: () => void): void {
+    this.members.set(member, {
+      running: 0,
+      waiting: false,
+      onRelease: onRelease ? AsyncResource.bind(onRelease) : null,
+    })
+  }
+
+  /**
+   * Slots the member may start now
+   */
+  getAvailable(member: string): number {
+    const self = this.getMember(member)
+    const share = this.getShare()
+    const free = this.limit - this.getRunning()
+
+    let owedToOthers = 0
+    for (const [name, other] of this.members) {
+      if (name !== member && other.waiting) {
+        owedToOthers += Math.max(0, share - other.running)
+      }
+    }
+
+    // Up to its own share from any free slot, beyond that only what nobody waiting is owed
+    const ownShare = Math.max(0, share - self.running)
+    return Math.max(0, Math.min(free, ownShare + Math.max(0, free - ownShare - owedToOthers)))
+  }
+
+  /**
+   * Record whether the member has tasks it could not start because of the budget
+   */
+  setWaiting(member: string, waiting: boolean): void {
+    this.getMember(member).waiting = waiting
+  }
+
+  /**
+   * Take a slot (the caller checks getAvailable first)
+   */
+  acquire(member: string): void {
+    this.getMember(member).running++
+  }
+
+  /**
+   * Return a slot and wake the other members
+   */
+  release(member: string): void {
+    const self = this.getMember(member)
+    self.running = Math.max(0, self.running - 1)
+
+    for (const [name, other] of this.members) {
+      if (name !== member) {
+        other.onRelease?.()
+      }
+    }
+  }
+
+  /**
+   * Budget usage for status output
+   */
+  getStats(): { limit: number; share: number; running: Record<string, number>; waiting: string[] } {
+    const running: Record<string, number> = {}
+    const waiting: string[] = []
+    for (const [name, member] of this.members) {
+      running[name] = member.running
+      if (member.waiting) {
+        waiting.push(name)
+      }
+    }
+    return { limit: this.limit, share: this.getShare(), running, waiting }
+  }
+
+  private getShare(): number {
+    return Math.max(1, Math.floor(this.limit / Math.max(1, this.members.size)))
+  }
+
+  private getRunning(): number {
+    let total = 0
+    for (const member of this.members.values()) {
+      total += member.running
+    }
+    return total
+  }
+
+  private getMember(member: string): BudgetMember {
+    const found = this.members.get(member)
+    if (!found) {
+      throw new Error(`Unknown concurrency budget member: ${member}`)
+    }
+    return found
+  }
+}
@@ -0,0 +1,199 @@
+import { createWorkspaceConfig, type AgentConfig, type WorkspacesFile } from '../config'
+import { AgentRuntime } from './AgentRuntime'
+import { ConcurrencyBudget } from './ConcurrencyBudget'
+import { AdminServer, type ProbeResult } from '../admin/AdminServer'
+import { tracer } from '../tracing/Tracer'
+import { createSpanExporters } from '../tracing/exporters'
+import { logger, withLogContext } from '../utils/logger'
+import { getErrorMessage } from '../utils/HttpError'
+
+// A workspace that fails to start (bad key, backend down) is retried after this delay
+const WORKSPACE_RESTART_DELAY_MS = 5 * 60 * 1000
+
+interface HostedWorkspace {
+  name: string
+  runtime: AgentRuntime
+  started: boolean
+  restartTimer: NodeJS.Timeout | null
+  lastError: string | null
+}
+
+/**
+ * Runs one AgentRuntime per workspace in a single process
+ *
+ * Each workspace has its own API client, config version store, outbox, identity,
+ * schedulers and workspace config; they share only a ConcurrencyBudget (fair
+ * share of the process-wide task slots), the tracer and the admin server.
+ * Everything a workspace logs carries a `workspace` field.
+ */
+export class MultiWorkspaceRuntime {
+  private readonly workspaces: HostedWorkspace[]
+  private readonly concurrencyBudget: ConcurrencyBudget
+  private adminServer: AdminServer | null = null
+  private isShuttingDown: boolean = false
+
+  constructor(
+    private readonly config: AgentConfig,
+    workspacesFile: WorkspacesFile
+  ) {
+    this.concurrencyBudget = new ConcurrencyBudget(workspacesFile.maxConcurrentTasks)
+
+    tracer.configure(createSpanExporters(config), {
+      serviceName: config.serviceName,
+      serviceVersion: process.env.npm_package_version || '1.0.0',
+    })
+
+    this.workspaces = workspacesFile.workspaces.map(workspace => ({
+      name: workspace.name,
+      runtime: withLogContext({ workspace: workspace.name }, () =>
+        new AgentRuntime(createWorkspaceConfig(config, workspace), this.concurrencyBudget)
+      ),
+      started: false,
+      restartTimer: null,
+      lastError: null,
+    }))
+  }
+
+  /**
+   * Start all workspaces
+   * Workspaces that fail to start are retried in the background; start fails only
+   * when none of them could start
+   */
+  async start(): Promise<void> {
+    logger.info('Starting multi-workspace agent', {
+      workspaces: this.workspaces.map(w => w.name),
+      maxConcurrentTasks: this.concurrencyBudget.getStats().limit,
+    })
+
+    await Promise.all(this.workspaces.map(workspace => this.startWorkspace(workspace)))
+
+    const started = this.workspaces.filter(w => w.started)
+    if (started.length === 0) {
+      throw new Error('No workspace could be started')
+    }
+
+    await this.startAdminServer()
+
+    logger.info('Multi-workspace agent started', {
+      started: started.map(w => w.name),
+      failed: this.workspaces.filter(w => !w.started).map(w => w.name),
+    })
+  }
+
+  /**
+   * Stop all workspaces gracefully
+   */
+  async stop(): Promise<void> {
+    if (this.isShuttingDown) {
+      return
+    }
+    this.isShuttingDown = true
+
+    for (const workspace of this.workspaces) {
+      if (workspace.restartTimer) {
+        clearTimeout(workspace.restartTimer)
+      }
+    }
+
+    await Promise.all(this.workspaces.filter(w => w.started).map(async workspace => {
+      try {
+        await workspace.runtime.stop()
+      } catch (error: unknown) {
+        logger.error('Failed to stop workspace', { workspace: workspace.name, error: getErrorMessage(error) })
+      }
+    }))
+
+    await this.adminServer?.stop()
+    await tracer.shutdown()
+    logger.info('Multi-workspace agent stopped')
+  }
+
+  /**
+   * Start one workspace, scheduling a retry on failure
+   */
+  private async startWorkspace(workspace: HostedWorkspace): Promise<void> {
+    workspace.restartTimer = null
+
+    try {
+      await workspace.runtime.start()
+      workspace.started = true
+      workspace.lastError = null
+    } catch (error: unknown) {
+      workspace.lastError = getErrorMessage(error)
+      if (this.isShuttingDown) {
+        return
+      }
+
+      logger.error('Workspace failed to start, will retry', {
+        workspace: workspace.name,
+        error: workspace.lastError,
+        retryInMs: WORKSPACE_RESTART_DELAY_MS,
+      })
+      workspace.restartTimer = setTimeout(() => {
+        void this.startWorkspace(workspace)
+      }, WORKSPACE_RESTART_DELAY_MS)
+    }
+  }
+
+  /**
+   * Start the shared admin server if ADMIN_PORT is set
+   */
+  private async startAdminServer(): Promise<void> {
+    if (this.config.adminPort === undefined) {
+      return
+    }
+
+    const server = new AdminServer({
+      getHealth: () => this.getHealth(),
+      getReadiness: () => this.getReadiness(),
+      getStatus: () => this.getStatus(),
+    }, this.config.adminPort, this.config.adminHost)
+
+    try {
+      await server.start()
+      this.adminServer = server
+    } catch (error) {
+      logger.error({ err: error, port: this.config.adminPort }, 'Failed to start admin server')
+    }
+  }
+
+  /**
+   * Liveness: every started workspace is healthy
+   */
+  private getHealth(): ProbeResult {
+    const checks: Record<string, ProbeResult> = {}
+    for (const workspace of this.workspaces.filter(w => w.started)) {
+      checks[workspace.name] = workspace.runtime.getHealth()
+    }
+    return { ok: Object.values(checks).every(check => check.ok), checks }
+  }
+
+  /**
+   * Readiness: every workspace started and is ready
+   */
+  private getReadiness(): ProbeResult {
+    const checks: Record<string, ProbeResult | { ok: false; error: string | null }> = {}
+    for (const workspace of this.workspaces) {
+      checks[workspace.name] = workspace.started
+        ? workspace.runtime.getReadiness()
+        : { ok: false, error: workspace.lastError }
+    }
+    return { ok: Object.values(checks).every(check => check.ok), checks }
+  }
+
+  /**
+   * Per-workspace runtime snapshots plus the shared budget
+   */
+  private getStatus(): Record<string, any> {
+    const workspaces: Record<string, any> = {}
+    for (const workspace of this.workspaces) {
+      workspaces[workspace.name] = workspace.started
+        ? workspace.runtime.getStatus()
+        : { started: false, error: workspace.lastError }
+    }
+    return {
+      concurrencyBudget: this.concurrencyBudget.getStats(),
+      workspaces,
+    }
+  }
+}
@@ -1,13 +1,22 @@
 import type { AgentConfig } from '../config'
-import type { BackendApiClient, AgentTask, WorkspaceConfigResponse, AgentConfigResponse } from '../api/BackendApiClient'
+import type { BackendApiClient, AgentTask, BuiltinTaskType, WorkspaceConfigResponse, AgentConfigResponse } from '../api/BackendApiClient'
 import { logger } from '../utils/logger'
+import { TaskProgressReporter, type TaskProgress } from './TaskProgressReporter'
+import type { QuotaManager, QuotaReservation, TaskQuota } from '../services/QuotaManager'
+import type { HttpClientRegistry } from '../http/HttpClientRegistry'
+import { TaskWorkerPool } from './TaskWorkerPool'
+import { createBuiltinHandlers } from '../tasks'
+import { INTEGRATION_NAMES, type Integration } from '../tasks/CredentialsRejectedError'
 
-// Task handlers - named to match backend task types
-import { FetcherHandler } from '../tasks/FetcherHandler'
-import { SuggestionHandler } from '../tasks/SuggestionHandler'
-import { ApplyHandler } from '../tasks/ApplyHandler'
-import { LoggerHandler } from '../tasks/LoggerHandler'
-import { MaintainHandler } from '../tasks/MaintainHandler'
+// Built-in handlers that can run in a worker thread (no state shared with the main thread).
+// logger and maintain stay inline: they use the LogCollector read position and local files.
+const ISOLATABLE_TASK_TYPES = ['fetcher', 'suggestion', 'apply']
+
+// Workspace integrations a built-in handler needs - tasks are refused while one is missing
+const TASK_TYPE_INTEGRATIONS: Partial<Record<BuiltinTaskType, Integration[]>> = {
+  fetcher: ['ado'],
+  suggestion: ['openai'],
+}
 
 export interface TaskHandler {
   execute(task: AgentTask, context: TaskContext): Promise<Record<string, any>>
@@ -16,49 +25,62 @@ export interface TaskHandler {
 export interface TaskContext {
   config: AgentConfig
   apiClient: BackendApiClient
-  workspaceId: string
-  agentId: string
+  httpClients: HttpClientRegistry  // Resilient clients for the backend, ADO and Azure OpenAI
+  instanceId: string  // Persistent ID of this agent installation
+  workspaceId: string  // From instance registration ('' if registration failed)
+  agentId: string  // Backend agent record for this instance ('' if registration failed)
+  dryRun: boolean  // DRY_RUN or payload.dry_run - record writes in a DryRunReport instead of making them
   workspaceConfig: WorkspaceConfigResponse | null
   backendConfig: AgentConfigResponse | null  // Backend configuration with worker settings
-  signal?: AbortSignal  // Cancellation signal for graceful shutdown
+  signal?: AbortSignal  // Cancellation signal (graceful shutdown, or TaskLeaseLostError as reason when the lease is lost)
+  reportProgress: (progress: TaskProgress) => void  // Throttled task_progress signal to the backend
+  quota: TaskQuota  // Hourly limits from backend config - consult before billable work
 }
 
 /**
  * Task executor that routes tasks to appropriate handlers
+ * In worker execution mode, isolatable handlers run in a TaskWorkerPool
  */
 export class TaskExecutor {
   private config: AgentConfig
   private apiClient: BackendApiClient
+  private httpClients: HttpClientRegistry
+  private quotaManager: QuotaManager
   private workspaceConfig: WorkspaceConfigResponse | null = null
   private backendConfig: AgentConfigResponse | null = null
   private handlers: Map<string, TaskHandler>
+  private workerPool: TaskWorkerPool | null = null
+  private isolatedTypes: Set<string> = new Set()
 
-  constructor(config: AgentConfig, apiClient: BackendApiClient) {
+  constructor(config: AgentConfig, apiClient: BackendApiClient, httpClients: HttpClientRegistry, quotaManager: QuotaManager) {
     this.config = config
     this.apiClient = apiClient
+    this.httpClients = httpClients
+    this.quotaManager = quotaManager
 
-    // Register task handlers
-    // Task types match the backend (lowercase):
-    // - fetcher: ADO sync
-    // - suggestion: AI-powered work item improvements
-    // - apply: Apply approved suggestions
-    // - logger: Transfer logs to server
-    // - maintain: Log cleanup and retention
-    this.handlers = new Map<string, TaskHandler>([
-      ['fetcher', new FetcherHandler()],
-      ['suggestion', new SuggestionHandler()],
-      ['apply', new ApplyHandler()],
-      ['logger', new LoggerHandler()],
-      ['maintain', new MaintainHandler()],
-    ])
+    // Register built-in task handlers
+    this.handlers = createBuiltinHandlers()
+
+    // Worker execution mode: run isolatable handlers in worker threads
+    if (config.taskExecutionMode === 'worker') {
+      this.workerPool = new TaskWorkerPool(config, httpClients, config.maxConcurrentTasks, config.taskWorkerMemoryMb)
+      this.isolatedTypes = new Set(ISOLATABLE_TASK_TYPES)
+      logger.info('Task handlers run in worker threads', {
+        types: ISOLATABLE_TASK_TYPES,
+        memoryLimitMb: config.taskWorkerMemoryMb,
+      })
+    }
   }
 
   /**
    * Set workspace configuration (ADO/OpenAI credentials)
+   * Replaces the whole config object: tasks already running keep the config they
+   * started with, tasks started afterwards get the new one
    */
   setWorkspaceConfig(config: WorkspaceConfigResponse): void {
     this.workspaceConfig = config
     logger.info('Workspace configuration set in TaskExecutor', {
+      version: config.version,
       ado_configured: config.config_status.ado_configured,
       openai_configured: config.config_status.openai_configured,
     })
@@ -77,23 +99,38 @@ export class TaskExecutor {
 
   /**
    * Execute a task using the appropriate handler
+   * @param quota Budget reserved for the task at dispatch (default: the shared quota, nothing reserved)
    */
-  async execute(task: AgentTask, signal?: AbortSignal): Promise<Record<string, any>> {
-    logger.info('Executing task', { taskId: task.id, type: task.type })
+  async execute(task: AgentTask, signal?: AbortSignal, quota?: QuotaReservation): Promise<Record<string, any>> {
+    const dryRun = this.config.dryRun || task.payload?.dry_run === true
+    logger.info('Executing task', { taskId: task.id, type: task.type, dryRun })
 
     const handler = this.handlers.get(task.type)
     if (!handler) {
       throw new Error(`No handler registered for task type: ${task.type}`)
     }
 
-    const context = this.getTaskContext(signal)
-
     if (signal?.aborted) {
       throw new Error('Task cancelled before execution')
     }
 
+    const progressReporter = new TaskProgressReporter(this.apiClient, task)
+
     try {
-      const result = await handler.execute(task, context)
+      const execution = this.workerPool && this.isolatedTypes.has(task.type)
+        ? this.workerPool.run(task, {
+          ...this.getIdentityContext(),
+          dryRun,
+          workspaceConfig: this.workspaceConfig,
+          backendConfig: this.backendConfig,
+        }, {
+          apiClient: this.apiClient,
+          quota: quota ?? this.quotaManager,
+          progressReporter,
+        }, signal)
+        : handler.execute(task, this.getTaskContext(dryRun, signal, progressReporter, quota ?? this.quotaManager))
+
+      const result = await this.runUntilAborted(execution, signal)
       logger.info('Task executed successfully', {
         taskId: task.id,
         type: task.type,
@@ -114,23 +151,62 @@ export class TaskExecutor {
         error: error.message,
       })
       throw error
+    } finally {
+      progressReporter.stop()
+    }
+  }
+
+  /**
+   * Settle with the handler's result, or reject as soon as the signal aborts
+   * Frees the task slot even when a handler ignores the signal (e.g. a hung HTTP call)
+   */
+  private runUntilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise
     }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason ?? new Error('Task execution cancelled'))
+      signal.addEventListener('abort', onAbort, { once: true })
+
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort))
+    })
   }
 
   /**
    * Get task context for handlers
    */
-  private getTaskContext(signal?: AbortSignal): TaskContext {
+  private getTaskContext(
+    dryRun: boolean,
+    signal: AbortSignal | undefined,
+    progressReporter: TaskProgressReporter,
+    quota: TaskQuota
+  ): TaskContext {
     return {
       config: this.config,
       apiClient: this.apiClient,
-      // workspaceId and agentId are intentionally empty - authentication and workspace context
-      // are handled by the backend via the API key. Handlers use workspaceConfig for credentials.
-      workspaceId: '',
-      agentId: '',
+      httpClients: this.httpClients,
+      ...this.getIdentityContext(),
+      dryRun,
       workspaceConfig: this.workspaceConfig,
       backendConfig: this.backendConfig,
       signal,
+      reportProgress: (progress) => progressReporter.report(progress),
+      quota,
+    }
+  }
+
+  /**
+   * Identity fields of TaskContext, resolved from instance registration
+   */
+  private getIdentityContext(): Pick<TaskContext, 'instanceId' | 'workspaceId' | 'agentId'> {
+    const workspace = this.apiClient.getWorkspaceContext()
+    return {
+      instanceId: workspace.instanceId,
+      workspaceId: workspace.workspaceId ?? '',
+      agentId: workspace.agentId ?? '',
     }
   }
 
@@ -139,6 +215,64 @@ export class TaskExecutor {
    */
   registerHandler(taskType: string, handler: TaskHandler): void {
     this.handlers.set(taskType, handler)
+    // Custom handlers only exist on the main thread
+    this.isolatedTypes.delete(taskType)
     logger.info('Registered task handler', { taskType })
   }
+
+  /**
+   * Which integrations are configured
+   * Mirrors the handlers: workspace config from the backend, else agent config from .env
+   */
+  getIntegrations(): Record<Integration, boolean> {
+    if (this.workspaceConfig) {
+      return {
+        ado: this.workspaceConfig.config_status?.ado_configured ?? false,
+        openai: this.workspaceConfig.config_status?.openai_configured ?? false,
+      }
+    }
+
+    return {
+      ado: !!(this.config.adoOrganization && this.config.adoProject && this.config.adoPatToken),
+      openai: !!(this.config.azureOpenAiEndpoint && this.config.azureOpenAiApiKey),
+    }
+  }
+
+  /**
+   * Why a task type cannot run right now, or null if it can
+   */
+  getUnavailableReason(type: string): string | null {
+    if (!this.handlers.has(type)) {
+      return `No handler registered for task type: ${type}`
+    }
+
+    const integrations = this.getIntegrations()
+    const missing = (TASK_TYPE_INTEGRATIONS[type as BuiltinTaskType] ?? []).filter(name => !integrations[name])
+    if (missing.length > 0) {
+      return `${missing.map(name => INTEGRATION_NAMES[name]).join(' and ')} not configured`
+    }
+
+    return null
+  }
+
+  /**
+   * Task types that can run right now (handler registered and integrations configured)
+   */
+  getRunnableTypes(): string[] {
+    return this.getSupportedTypes().filter(type => this.getUnavailableReason(type) === null)
+  }
+
+  /**
+   * Task types this agent has handlers for (built-in and plugins)
+   */
+  getSupportedTypes(): string[] {
+    return Array.from(this.handlers.keys())
+  }
+
+  /**
+   * Stop worker threads (worker execution mode)
+   */
+  async shutdown(): Promise<void> {
+    await this.workerPool?.shutdown()
+  }
 }
\ No newline at end of file
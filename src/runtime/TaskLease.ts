@@ -0,0 +1,122 @@
+import type { BackendApiClient } from '../api/BackendApiClient'
+import { logger } from '../utils/logger'
+
+/** Default lease renewal interval when the backend does not send task_lease_renewal_ms */
+export const DEFAULT_LEASE_RENEWAL_MS = 60000
+
+/**
+ * Abort reason used when the backend no longer considers this agent the task owner
+ * Handlers see it as `context.signal.reason`
+ */
+export class TaskLeaseLostError extends Error {
+  constructor(
+    public readonly taskId: string,
+    reason: string
+  ) {
+    super(`Task lease lost: ${reason}`)
+    this.name = 'TaskLeaseLostError'
+  }
+}
+
+/**
+ * Keeps the lease on a claimed task alive with periodic heartbeats
+ *
+ * Aborts the task's AbortController with a TaskLeaseLostError when the backend rejects
+ * an extension, or when renewals keep failing past the last known expiry.
+ * Stops renewing (without aborting) when the backend has no extend endpoint.
+ */
+export class TaskLease {
+  private timer: NodeJS.Timeout | null = null
+  private expiresAt: number | null
+  private renewing: boolean = false
+  private lost: boolean = false
+
+  constructor(
+    private readonly apiClient: BackendApiClient,
+    private readonly taskId: string,
+    private readonly controller: AbortController,
+    private readonly renewalIntervalMs: number = DEFAULT_LEASE_RENEWAL_MS,
+    leaseExpiresAt?: string
+  ) {
+    this.expiresAt = leaseExpiresAt ? Date.parse(leaseExpiresAt) || null : null
+  }
+
+  /**
+   * Start renewing the lease
+   */
+  start(): void {
+    if (this.timer) {
+      return
+    }
+
+    this.timer = setInterval(() => {
+      this.renew()
+    }, this.renewalIntervalMs)
+  }
+
+  /**
+   * Stop renewing the lease (task finished)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Check whether the lease was lost
+   */
+  isLost(): boolean {
+    return this.lost
+  }
+
+  /**
+   * Send a single lease extension
+   */
+  private async renew(): Promise<void> {
+    if (this.renewing || this.lost || this.controller.signal.aborted) {
+      return
+    }
+
+    this.renewing = true
+
+    try {
+      const response = await this.apiClient.extendTaskLease(this.taskId)
+
+      if (response === 'unsupported') {
+        this.stop()
+        return
+      }
+
+      if (response?.extended) {
+        this.expiresAt = response.lease_expires_at ? Date.parse(response.lease_expires_at) || null : null
+        logger.debug('Task lease extended', { taskId: this.taskId, leaseExpiresAt: response.lease_expires_at })
+        return
+      }
+
+      if (response) {
+        this.markLost('backend rejected lease extension')
+        return
+      }
+
+      // Outcome unknown - only give up once the last known lease has run out
+      if (this.expiresAt !== null && Date.now() >= this.expiresAt) {
+        this.markLost('lease expired before it could be renewed')
+      }
+    } finally {
+      this.renewing = false
+    }
+  }
+
+  /**
+   * Mark the lease lost and abort the task
+   */
+  private markLost(reason: string): void {
+    this.lost = true
+    this.stop()
+
+    logger.warn('Task lease lost, aborting task', { taskId: this.taskId, reason })
+    this.controller.abort(new TaskLeaseLostError(this.taskId, reason))
+  }
+}
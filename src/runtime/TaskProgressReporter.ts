@@ -0,0 +1,111 @@
+import type { BackendApiClient, AgentTask } from '../api/BackendApiClient'
+import { logger } from '../utils/logger'
+
+/** Minimum time between task_progress signals for the same task */
+export const DEFAULT_PROGRESS_THROTTLE_MS = 5000
+
+/**
+ * Progress update reported by a task handler
+ */
+export interface TaskProgress {
+  /** Overall completion, 0-100 */
+  percent?: number
+  /** Current stage name (e.g. 'fetching', 'uploading') */
+  stage?: string
+  /** Running totals shown in the web UI (e.g. { fetched: 200, imported: 150 }) */
+  counters?: Record<string, number>
+}
+
+/**
+ * Throttled task_progress signal sender for a single task
+ *
+ * Stage changes are sent immediately. Other updates are sent at most once per
+ * throttle window, with the latest update sent at the end of the window.
+ */
+export class TaskProgressReporter {
+  private pending: TaskProgress | null = null
+  private lastSentAt: number = 0
+  private lastStage: string | undefined
+  private timer: NodeJS.Timeout | null = null
+  private stopped: boolean = false
+
+  constructor(
+    private readonly apiClient: BackendApiClient,
+    private readonly task: AgentTask,
+    private readonly throttleMs: number = DEFAULT_PROGRESS_THROTTLE_MS
+  ) {}
+
+  /**
+   * Record a progress update (fire-and-forget, never throws)
+   */
+  report(progress: TaskProgress): void {
+    if (this.stopped) {
+      return
+    }
+
+    this.pending = progress
+
+    const stageChanged = progress.stage !== undefined && progress.stage !== this.lastStage
+    if (stageChanged || Date.now() - this.lastSentAt >= this.throttleMs) {
+      this.flush()
+      return
+    }
+
+    if (!this.timer) {
+      const delay = this.throttleMs - (Date.now() - this.lastSentAt)
+      this.timer = setTimeout(() => {
+        this.timer = null
+        this.flush()
+      }, delay)
+    }
+  }
+
+  /**
+   * Stop reporting - pending updates are dropped (task_completed/task_failed follows)
+   */
+  stop(): void {
+    this.stopped = true
+    this.pending = null
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Send the latest pending update
+   */
+  private flush(): void {
+    const progress = this.pending
+    if (!progress || this.stopped) {
+      return
+    }
+
+    this.pending = null
+    this.lastSentAt = Date.now()
+    this.lastStage = progress.stage ?? this.lastStage
+
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+
+    const percent = progress.percent !== undefined
+      ? Math.max(0, Math.min(100, Math.round(progress.percent)))
+      : undefined
+
+    this.apiClient.sendSignals([{
+      category: 'event',
+      type: 'task_progress',
+      payload: {
+        taskId: this.task.id,
+        taskType: this.task.type,
+        percent,
+        stage: this.lastStage,
+        counters: progress.counters,
+      },
+    }]).catch((error) => {
+      logger.debug('Failed to send task progress', { taskId: this.task.id, error })
+    })
+  }
+}
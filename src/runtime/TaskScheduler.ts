@@ -0,0 +1,132 @@
+import type { AgentTask, WorkerSettings } from '../api/BackendApiClient'
+import { logger } from '../utils/logger'
+
+type TaskType = AgentTask['type']
+
+// Built-in per-type limits used when the backend does not send max_concurrent
+// A second fetcher would only duplicate the running ADO sync
+const DEFAULT_TYPE_LIMITS: Partial<Record<TaskType, number>> = {
+  fetcher: 1,
+}
+
+/**
+ * Result of selecting tasks from a polled batch
+ */
+export interface TaskSelection {
+  selected: AgentTask[]
+  deferred: AgentTask[]
+}
+
+/**
+ * Priority-aware task scheduler with per-task-type concurrency limits
+ *
+ * Orders polled tasks by priority (highest first), then by scheduled_at (oldest first),
+ * and only selects tasks whose type still has a free slot. Deferred tasks are left
+ * unclaimed in the backend queue and picked up by a later poll.
+ */
+export class TaskScheduler {
+  private limits: Map<string, number> = new Map()
+  private running: Map<string, number> = new Map()
+
+  constructor() {
+    this.applyLimits({})
+  }
+
+  /**
+   * Update per-type limits from backend worker settings
+   * Called on startup and when config changes via piggyback
+   */
+  setLimits(workers: WorkerSettings): void {
+    const limits: Partial<Record<TaskType, number>> = {}
+    for (const [type, settings] of Object.entries(workers) as Array<[TaskType, { max_concurrent?: number }]>) {
+      if (settings.max_concurrent !== undefined) {
+        limits[type] = settings.max_concurrent
+      }
+    }
+
+    this.applyLimits(limits)
+  }
+
+  /**
+   * Select the tasks to run from a polled batch
+   * @param tasks Tasks returned by the backend, in any order
+   * @param availableSlots Free global slots (max_concurrent_tasks - active tasks)
+   */
+  selectTasks(tasks: AgentTask[], availableSlots: number): TaskSelection {
+    const selected: AgentTask[] = []
+    const deferred: AgentTask[] = []
+    const pending = new Map<string, number>()
+
+    for (const task of this.sortByPriority(tasks)) {
+      const limit = this.limits.get(task.type)
+      const count = (this.running.get(task.type) ?? 0) + (pending.get(task.type) ?? 0)
+
+      if (selected.length >= availableSlots || (limit !== undefined && count >= limit)) {
+        deferred.push(task)
+        continue
+      }
+
+      selected.push(task)
+      pending.set(task.type, (pending.get(task.type) ?? 0) + 1)
+    }
+
+    return { selected, deferred }
+  }
+
+  /**
+   * Record that a task of this type has started
+   */
+  acquire(task: AgentTask): void {
+    this.running.set(task.type, (this.running.get(task.type) ?? 0) + 1)
+  }
+
+  /**
+   * Record that a task of this type has finished
+   */
+  release(task: AgentTask): void {
+    const count = (this.running.get(task.type) ?? 0) - 1
+    if (count > 0) {
+      this.running.set(task.type, count)
+    } else {
+      this.running.delete(task.type)
+    }
+  }
+
+  /**
+   * Get running task counts and limits per type for monitoring
+   */
+  getStats(): { running: Record<string, number>; limits: Record<string, number> } {
+    return {
+      running: Object.fromEntries(this.running),
+      limits: Object.fromEntries(this.limits),
+    }
+  }
+
+  /**
+   * Sort tasks by priority (descending), then scheduled_at (ascending)
+   */
+  private sortByPriority(tasks: AgentTask[]): AgentTask[] {
+    return [...tasks].sort((a, b) => {
+      if (a.priority !== b.priority) {
+        return (b.priority ?? 0) - (a.priority ?? 0)
+      }
+      return (Date.parse(a.scheduled_at) || 0) - (Date.parse(b.scheduled_at) || 0)
+    })
+  }
+
+  /**
+   * Merge limits over the built-in defaults and log changes
+   */
+  private applyLimits(limits: Partial<Record<TaskType, number>>): void {
+    const merged = new Map<string, number>(Object.entries({ ...DEFAULT_TYPE_LIMITS, ...limits }) as Array<[string, number]>)
+
+    const changed = merged.size !== this.limits.size ||
+      Array.from(merged.entries()).some(([type, limit]) => this.limits.get(type) !== limit)
+
+    this.limits = merged
+
+    if (changed) {
+      logger.info('Per-type task limits updated', { limits: Object.fromEntries(merged) })
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import { Worker } from 'worker_threads'
+import { AsyncResource } from 'async_hooks'
+import * as path from 'path'
+import type { AgentConfig } from '../config'
+import type { AgentTask, BackendApiClient } from '../api/BackendApiClient'
+import type { QuotaSnapshot, TaskQuota } from '../services/QuotaManager'
+import type { HttpClientRegistry } from '../http/HttpClientRegistry'
+import type { TaskProgressReporter } from './TaskProgressReporter'
+import { metricsRegistry } from '../metrics/MetricsRegistry'
+import { tracer } from '../tracing/Tracer'
+import { logger, getLogLevel, writeForwardedLog } from '../utils/logger'
+import { getErrorMessage } from '../utils/HttpError'
+import {
+  serializeError,
+  deserializeError,
+  PROXIED_API_METHODS,
+  type ProxiedApiMethod,
+  type MainToWorkerMessage,
+  type WorkerToMainMessage,
+  type WorkerTaskContext,
+  type TaskWorkerData,
+} from './TaskWorkerProtocol'
+
+// Time a cancelled handler gets to wind down before its worker is terminated
+const ABORT_GRACE_MS = 5000
+
+/**
+ * Error used when a worker thread dies while running a task
+ * (uncaught exception, out of memory, or forced termination)
+ */
+export class TaskWorkerCrashedError extends Error {
+  constructor(
+    public readonly taskId: string,
+    reason: string
+  ) {
+    super(`Task worker crashed: ${reason}`)
+    this.name = 'TaskWorkerCrashedError'
+  }
+}
+
+/**
+ * Main-thread capabilities a worker task can use
+ */
+export interface TaskWorkerHost {
+  apiClient: BackendApiClient
+  quota: TaskQuota & { getSnapshot(): QuotaSnapshot }  // The task's QuotaReservation
+  progressReporter: TaskProgressReporter
+}
+
+/**
+ * Pool of worker threads that run task handlers off the main event loop
+ *
+ * Each worker runs one task at a time with a V8 heap limit. A worker that
+ * crashes fails only the task it was running and is replaced on demand;
+ * healthy workers are kept idle (up to maxIdle) for reuse.
+ */
+export class TaskWorkerPool {
+  private idle: Worker[] = []
+  private busy: Set<Worker> = new Set()
+
+  constructor(
+    private readonly config: AgentConfig,
+    private readonly httpClients: HttpClientRegistry,  // Owns the circuit breakers worker requests go through
+    private readonly maxIdle: number,
+    private readonly memoryLimitMb: number
+  ) {}
+
+  /**
+   * Run a task in a worker thread
+   * Aborting the signal forwards the abort to the handler; a handler that does
+   * not stop within the grace period has its worker terminated.
+   */
+  run(
+    task: AgentTask,
+    context: Omit<WorkerTaskContext, 'quota' | 'traceparent' | 'logLevel'>,
+    host: TaskWorkerHost,
+    signal?: AbortSignal
+  ): Promise<Record<string, any>> {
+    // An abort event never fires for a signal that is already aborted
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason ?? new Error('Task execution cancelled'))
+    }
+
+    const worker = this.idle.pop() ?? this.spawn()
+    this.busy.add(worker)
+
+    return new Promise((resolve, reject) => {
+      let abortTimer: NodeJS.Timeout | null = null
+
+      const finish = (reusable: boolean) => {
+        worker.off('message', onMessage)
+        worker.off('error', onError)
+        worker.off('exit', onExit)
+        signal?.removeEventListener('abort', onAbort)
+        if (abortTimer) {
+          clearTimeout(abortTimer)
+        }
+
+        this.busy.delete(worker)
+        if (reusable && !signal?.aborted && this.idle.length < this.maxIdle) {
+          this.idle.push(worker)
+        } else {
+          void worker.terminate()
+        }
+      }
+
+      // Bound to the caller's async context so forwarded logs keep the task's log context
+      const onMessage = AsyncResource.bind((message: WorkerToMainMessage) => {
+        switch (message.type) {
+          case 'result':
+            finish(true)
+            resolve(message.result)
+            break
+          case 'error':
+            finish(true)
+            reject(deserializeError(message.error))
+            break
+          case 'apiCall':
+            void this.handleApiCall(worker, host.apiClient, message.callId, message.method, message.args)
+            break
+          case 'progress':
+            host.progressReporter.report(message.progress)
+            break
+          case 'quota':
+            host.quota.record(message.name, message.amount)
+            break
+          case 'log':
+            writeForwardedLog(message.line, { taskId: task.id, thread: worker.threadId })
+            break
+          case 'metric':
+            metricsRegistry.apply(message.update)
+            break
+          case 'span':
+            tracer.onSpanEnd(message.span)
+            break
+        }
+      })
+
+      const onError = (error: Error) => {
+        logger.error('Task worker crashed', { taskId: task.id, type: task.type, error: error.message })
+        finish(false)
+        reject(new TaskWorkerCrashedError(task.id, error.message))
+      }
+
+      const onExit = (code: number) => {
+        logger.error('Task worker exited unexpectedly', { taskId: task.id, type: task.type, exitCode: code })
+        finish(false)
+        reject(new TaskWorkerCrashedError(task.id, `worker exited with code ${code}`))
+      }
+
+      const onAbort = () => {
+        this.post(worker, { type: 'abort', reason: getErrorMessage(signal?.reason ?? 'Task execution cancelled') })
+        abortTimer = setTimeout(() => {
+          logger.warn('Terminating task worker that ignored cancellation', { taskId: task.id, type: task.type })
+          finish(false)
+          reject(signal?.reason ?? new Error('Task execution cancelled'))
+        }, ABORT_GRACE_MS)
+      }
+
+      worker.on('message', onMessage)
+      worker.once('error', onError)
+      worker.once('exit', onExit)
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.post(worker, {
+        type: 'execute',
+        task,
+        context: {
+          ...context,
+          quota: host.quota.getSnapshot(),
+          traceparent: tracer.getActiveSpan()?.toTraceparent(),
+          logLevel: getLogLevel(),
+        },
+      })
+    })
+  }
+
+  /**
+   * Terminate all workers
+   */
+  async shutdown(): Promise<void> {
+    const workers = [...this.idle, ...this.busy]
+    this.idle = []
+    this.busy.clear()
+    await Promise.all(workers.map(worker => worker.terminate()))
+  }
+
+  /**
+   * Start a new worker thread
+   */
+  private spawn(): Worker {
+    const workerData: TaskWorkerData = {
+      config: this.config,
+      forwardLogs: true,
+      tracingEnabled: tracer.isEnabled(),
+    }
+    const options = {
+      workerData,
+      resourceLimits: { maxOldGenerationSizeMb: this.memoryLimitMb },
+    }
+
+    // Under tsx (development) the entry is TypeScript and needs the tsx loader
+    const entry = path.join(__dirname, `taskWorker${path.extname(__filename)}`)
+    const worker = entry.endsWith('.ts')
+      ? new Worker(`require('tsx/cjs/api').register(); require(${JSON.stringify(entry)})`, { ...options, eval: true })
+      : new Worker(entry, options)
+
+    // Idle workers that die are dropped from the pool
+    worker.once('exit', () => {
+      this.idle = this.idle.filter(w => w !== worker)
+    })
+
+    // Breaker messages can arrive between tasks (a request outliving its task), so they are not routed through run()
+    worker.on('message', (message: WorkerToMainMessage) => {
+      if (message.type === 'breakerAdmit' || message.type === 'breakerResult') {
+        this.handleCircuitBreakerMessage(worker, message)
+      }
+    })
+
+    // Always listen - an 'error' event without a listener would crash the main process.
+    // Errors of a busy worker are also reported by run(), which fails its task.
+    worker.on('error', (error: Error) => {
+      if (!this.busy.has(worker)) {
+        logger.error('Idle task worker failed', { threadId: worker.threadId, error: error.message })
+      }
+      this.idle = this.idle.filter(w => w !== worker)
+      void worker.terminate()
+    })
+
+    logger.debug('Started task worker', { threadId: worker.threadId, memoryLimitMb: this.memoryLimitMb })
+    return worker
+  }
+
+  /**
+   * Execute an API client call on behalf of a worker and post the outcome back
+   */
+  private async handleApiCall(
+    worker: Worker,
+    apiClient: BackendApiClient,
+    callId: number,
+    method: string,
+    args: any[]
+  ): Promise<void> {
+    try {
+      if (!PROXIED_API_METHODS.includes(method as ProxiedApiMethod)) {
+        throw new Error(`API client method not available to task workers: ${method}`)
+      }
+      const result = await this.callApiMethod(apiClient, method as ProxiedApiMethod, args)
+      this.post(worker, { type: 'apiResult', callId, result })
+    } catch (error: unknown) {
+      this.post(worker, { type: 'apiResult', callId, error: serializeError(error) })
+    }
+  }
+
+  /**
+   * Admit a worker request through the main-thread circuit breaker, or record its outcome
+   */
+  private handleCircuitBreakerMessage(
+    worker: Worker,
+    message: Extract<WorkerToMainMessage, { type: 'breakerAdmit' | 'breakerResult' }>
+  ): void {
+    const breaker = this.httpClients.getCircuitBreaker(message.target, message.path)
+
+    if (message.type === 'breakerResult') {
+      breaker.recordResult(message.durationMs, message.error ? deserializeError(message.error) : undefined)
+      return
+    }
+
+    try {
+      breaker.admit()
+      this.post(worker, { type: 'apiResult', callId: message.callId, result: { timeoutMs: breaker.getTimeoutMs() } })
+    } catch (error: unknown) {
+      this.post(worker, { type: 'apiResult', callId: message.callId, error: serializeError(error) })
+    }
+  }
+
+  /**
+   * Call an allow-listed API client method with arguments posted by a worker
+   */
+  private callApiMethod(apiClient: BackendApiClient, method: ProxiedApiMethod, args: unknown[]): Promise<unknown> {
+    switch (method) {
+      case 'sendSignal':
+        return apiClient.sendSignal(...(args as Parameters<BackendApiClient['sendSignal']>))
+      case 'sendSignals':
+        return apiClient.sendSignals(...(args as Parameters<BackendApiClient['sendSignals']>))
+    }
+  }
+
+  private post(worker: Worker, message: MainToWorkerMessage): void {
+    try {
+      worker.postMessage(message)
+    } catch (error: unknown) {
+      // The worker may have exited between the call and the reply
+      logger.debug('Failed to post message to task worker', { error: getErrorMessage(error) })
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Messages exchanged between TaskWorkerPool (main thread) and taskWorker (worker thread)
+ *
+ * TaskContext capabilities that cannot cross a thread boundary are replaced by
+ * messages: API client calls are request/response, progress and quota usage are
+ * fire-and-forget, and logs, metrics and spans are forwarded to the main thread.
+ * Circuit breakers live on the main thread: a worker asks it to admit each request
+ * and reports the outcome, independent of the task that made the request.
+ */
+
+import type { AgentConfig } from '../config'
+import type { HttpTarget } from '../http/HttpClientRegistry'
+import type { AgentTask, AgentConfigResponse, WorkspaceConfigResponse } from '../api/BackendApiClient'
+import type { TaskProgress } from './TaskProgressReporter'
+import type { MetricUpdate } from '../metrics/MetricsRegistry'
+import type { FinishedSpan } from '../tracing/types'
+import { QuotaExceededError, type QuotaName, type QuotaSnapshot } from '../services/QuotaManager'
+import { HttpError } from '../utils/HttpError'
+import { CredentialsRejectedError, type Integration } from '../tasks/CredentialsRejectedError'
+
+/**
+ * Data every task worker is started with
+ */
+export interface TaskWorkerData {
+  config: AgentConfig
+  forwardLogs: true
+  tracingEnabled: boolean
+}
+
+/**
+ * Plain-data TaskContext fields sent with each task
+ */
+export interface WorkerTaskContext {
+  instanceId: string
+  workspaceId: string
+  agentId: string
+  dryRun: boolean
+  workspaceConfig: WorkspaceConfigResponse | null
+  backendConfig: AgentConfigResponse | null
+  quota: QuotaSnapshot
+  traceparent?: string
+  logLevel: string
+}
+
+/**
+ * Error as structured-clone-safe data (keeps the fields the runtime branches on)
+ */
+export interface SerializedError {
+  name: string
+  message: string
+  stack?: string
+  status?: number
+  quota?: QuotaName
+  retryAfterMs?: number
+  integration?: Integration
+}
+
+// BackendApiClient methods a task worker may call through the main thread
+export const PROXIED_API_METHODS = ['sendSignal', 'sendSignals'] as const
+
+export type ProxiedApiMethod = typeof PROXIED_API_METHODS[number]
+
+export type MainToWorkerMessage =
+  | { type: 'execute'; task: AgentTask; context: WorkerTaskContext }
+  | { type: 'abort'; reason: string }
+  | { type: 'apiResult'; callId: number; result?: any; error?: SerializedError }
+
+export type WorkerToMainMessage =
+  | { type: 'apiCall'; callId: number; method: string; args: any[] }
+  | { type: 'breakerAdmit'; callId: number; target: HttpTarget; path: string }  // Answered with apiResult { timeoutMs }
+  | { type: 'breakerResult'; target: HttpTarget; path: string; durationMs: number; error?: SerializedError }
+  | { type: 'progress'; progress: TaskProgress }
+  | { type: 'quota'; name: QuotaName; amount: number }
+  | { type: 'log'; line: string }
+  | { type: 'metric'; update: MetricUpdate }
+  | { type: 'span'; span: FinishedSpan }
+  | { type: 'result'; result: Record<string, any> }
+  | { type: 'error'; error: SerializedError }
+
+/**
+ * Convert an error to data that can be posted between threads
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) }
+  }
+
+  const data = error as Error & Partial<Pick<SerializedError, 'status' | 'quota' | 'retryAfterMs' | 'integration'>>
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    status: typeof data.status === 'number' ? data.status : undefined,
+    quota: data.quota,
+    retryAfterMs: data.retryAfterMs,
+    integration: data.integration,
+  }
+}
+
+/**
+ * Rebuild an error posted from another thread
+ * Error classes the runtime checks with instanceof are recreated
+ */
+export function deserializeError(data: SerializedError): Error {
+  let error: Error
+
+  if (data.name === 'QuotaExceededError' && data.quota) {
+    error = new QuotaExceededError(data.quota, data.retryAfterMs ?? 0)
+  } else if (data.name === 'CredentialsRejectedError' && data.integration && data.status !== undefined) {
+    error = new CredentialsRejectedError(data.integration, data.status, '')
+    error.message = data.message
+  } else if (data.status !== undefined) {
+    error = new HttpError(data.message, data.status)
+  } else {
+    error = new Error(data.message)
+    error.name = data.name
+  }
+
+  if (data.stack) {
+    error.stack = data.stack
+  }
+  return error
+}
@@ -0,0 +1,213 @@
+import type { AgentTask, WorkerSettings } from '../api/BackendApiClient'
+import { logger } from '../utils/logger'
+
+type TaskType = AgentTask['type']
+
+// Built-in execution deadlines used when the backend does not send timeout_ms
+const DEFAULT_TASK_TIMEOUTS_MS: Record<TaskType, number> = {
+  fetcher: 30 * 60 * 1000,   // Large ADO syncs run in many batches
+  suggestion: 5 * 60 * 1000,
+  apply: 5 * 60 * 1000,
+  logger: 2 * 60 * 1000,
+  maintain: 10 * 60 * 1000,
+}
+
+// How often the watchdog checks tasks and loops
+const WATCHDOG_CHECK_INTERVAL_MS = 10000
+
+// Extra time a loop may overrun its interval before it counts as stalled
+// Covers one request with retries and circuit breaker timeout
+const LOOP_STALL_GRACE_MS = 60000
+
+/**
+ * Abort reason used when a task exceeds its execution deadline
+ */
+export class TaskTimeoutError extends Error {
+  constructor(
+    public readonly taskId: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Task timed out after ${timeoutMs}ms`)
+    this.name = 'TaskTimeoutError'
+  }
+}
+
+/**
+ * A periodic loop supervised by the watchdog
+ */
+export interface WatchedLoop {
+  /** Time of the last loop iteration (0 = not run yet) */
+  getLastRunTime(): number
+  /** Current expected interval between iterations */
+  getIntervalMs(): number
+  /** Restart the loop after a stall */
+  restart(): void
+}
+
+/**
+ * Liveness of a supervised loop
+ */
+export interface LoopHealth {
+  lastRunTime: number  // 0 = not run yet
+  maxSilenceMs: number
+  stalled: boolean
+}
+
+interface TrackedTask {
+  type: string
+  startedAt: number
+  controller: AbortController
+}
+
+/**
+ * Stuck-task and stalled-loop watchdog
+ *
+ * - Aborts tasks that exceed their per-type timeout with a TaskTimeoutError
+ * - Restarts the heartbeat/poll loops when they stop iterating
+ */
+export class Watchdog {
+  private timer: NodeJS.Timeout | null = null
+  private startedAt: number = 0
+  private timeouts: Map<string, number> = new Map(Object.entries(DEFAULT_TASK_TIMEOUTS_MS))
+  private tasks: Map<string, TrackedTask> = new Map()
+  private loops: Map<string, WatchedLoop> = new Map()
+  private loopRestartTimes: Map<string, number> = new Map()
+
+  /**
+   * Start periodic checks
+   */
+  start(): void {
+    if (this.timer) {
+      return
+    }
+
+    this.startedAt = Date.now()
+    this.timer = setInterval(() => {
+      this.check()
+    }, WATCHDOG_CHECK_INTERVAL_MS)
+
+    logger.info('Watchdog started', { timeouts: Object.fromEntries(this.timeouts) })
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Update per-type timeouts from backend worker settings
+   */
+  setTaskTimeouts(workers: WorkerSettings): void {
+    for (const [type, settings] of Object.entries(workers) as Array<[TaskType, { timeout_ms?: number }]>) {
+      const timeoutMs = settings.timeout_ms ?? DEFAULT_TASK_TIMEOUTS_MS[type]
+      if (timeoutMs !== undefined && this.timeouts.get(type) !== timeoutMs) {
+        this.timeouts.set(type, timeoutMs)
+        logger.info('Task timeout updated', { taskType: type, timeoutMs })
+      }
+    }
+  }
+
+  /**
+   * Set the timeout for a task type the backend has no worker settings for (e.g. a plugin)
+   */
+  setDefaultTimeout(type: string, timeoutMs: number): void {
+    this.timeouts.set(type, timeoutMs)
+  }
+
+  /**
+   * Register a loop to supervise
+   */
+  watchLoop(name: string, loop: WatchedLoop): void {
+    this.loops.set(name, loop)
+  }
+
+  /**
+   * Start enforcing the deadline for a running task
+   */
+  trackTask(task: AgentTask, controller: AbortController): void {
+    this.tasks.set(task.id, {
+      type: task.type,
+      startedAt: Date.now(),
+      controller,
+    })
+  }
+
+  /**
+   * Stop enforcing the deadline for a finished task
+   */
+  untrackTask(taskId: string): void {
+    this.tasks.delete(taskId)
+  }
+
+  /**
+   * Liveness of each supervised loop
+   * A loop is stalled when it has been silent for more than twice its interval plus a grace period
+   */
+  getLoopHealth(now: number = Date.now()): Record<string, LoopHealth> {
+    const health: Record<string, LoopHealth> = {}
+
+    for (const [name, loop] of this.loops.entries()) {
+      // Loops that have not run yet are measured from watchdog start
+      const lastRunTime = loop.getLastRunTime()
+      const maxSilenceMs = loop.getIntervalMs() * 2 + LOOP_STALL_GRACE_MS
+
+      health[name] = {
+        lastRunTime,
+        maxSilenceMs,
+        stalled: now - (lastRunTime || this.startedAt) > maxSilenceMs,
+      }
+    }
+
+    return health
+  }
+
+  /**
+   * Run one round of task and loop checks
+   */
+  private check(): void {
+    const now = Date.now()
+
+    for (const [taskId, tracked] of this.tasks.entries()) {
+      const timeoutMs = this.timeouts.get(tracked.type)
+      if (timeoutMs === undefined || tracked.controller.signal.aborted) {
+        continue
+      }
+
+      if (now - tracked.startedAt > timeoutMs) {
+        logger.error('Task exceeded its timeout, aborting', {
+          taskId,
+          taskType: tracked.type,
+          timeoutMs,
+          elapsedMs: now - tracked.startedAt,
+        })
+        tracked.controller.abort(new TaskTimeoutError(taskId, timeoutMs))
+      }
+    }
+
+    for (const [name, health] of Object.entries(this.getLoopHealth(now))) {
+      // Give a restarted loop a full window to run again before restarting it once more
+      const sinceRestart = now - (this.loopRestartTimes.get(name) ?? 0)
+
+      if (health.stalled && sinceRestart > health.maxSilenceMs) {
+        logger.error('Loop stalled, restarting', {
+          loop: name,
+          lastRun: health.lastRunTime ? new Date(health.lastRunTime).toISOString() : null,
+          maxSilenceMs: health.maxSilenceMs,
+        })
+
+        this.loopRestartTimes.set(name, now)
+
+        try {
+          this.loops.get(name)?.restart()
+        } catch (error) {
+          logger.error({ err: error, loop: name }, 'Failed to restart stalled loop')
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Task worker thread entry point
+ *
+ * Runs one task at a time for TaskWorkerPool. Capabilities of TaskContext that
+ * live on the main thread (API client, circuit breakers, progress, quota, logs,
+ * metrics, spans) are proxied over the parent port - see TaskWorkerProtocol.
+ */
+
+import { parentPort, workerData } from 'worker_threads'
+import type { BackendApiClient, AgentTask } from '../api/BackendApiClient'
+import type { TaskContext } from './TaskExecutor'
+import { createBuiltinHandlers } from '../tasks'
+import { HttpClientRegistry, type HttpTarget } from '../http/HttpClientRegistry'
+import type { CircuitBreakerPolicy } from '../http/types'
+import { runWithTimeout } from '../utils/circuit-breaker'
+import { NetworkDispatchers } from '../http/NetworkDispatchers'
+import { QuotaExceededError, QuotaMisconfiguredError, type QuotaName, type QuotaSnapshot, type TaskQuota } from '../services/QuotaManager'
+import { metricsRegistry } from '../metrics/MetricsRegistry'
+import { tracer } from '../tracing/Tracer'
+import type { FinishedSpan, SpanExporter } from '../tracing/types'
+import { getLogLevel, setLogLevel } from '../utils/logger'
+import {
+  serializeError,
+  deserializeError,
+  type MainToWorkerMessage,
+  type WorkerToMainMessage,
+  type WorkerTaskContext,
+  type TaskWorkerData,
+} from './TaskWorkerProtocol'
+
+if (!parentPort) {
+  throw new Error('taskWorker must be started as a worker thread')
+}
+
+const port = parentPort
+const data = workerData as TaskWorkerData
+const handlers = createBuiltinHandlers()
+// The global fetch dispatcher is per thread - plugins calling fetch directly need the proxy too
+NetworkDispatchers.installGlobal(data.config.network)
+// Outbound clients of this thread - retries are per worker, circuit breakers are the main thread's
+const httpClients = new HttpClientRegistry(data.config, (target, path) => new MainThreadCircuitBreaker(target, path))
+
+const pendingCalls: Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }> = new Map()
+let nextCallId = 1
+let currentController: AbortController | null = null
+
+function post(message: WorkerToMainMessage): void {
+  port.postMessage(message)
+}
+
+/**
+ * Hands finished spans to the main thread, which owns the real exporters
+ */
+class ParentPortSpanExporter implements SpanExporter {
+  async export(spans: FinishedSpan[]): Promise<void> {
+    for (const span of spans) {
+      post({ type: 'span', span })
+    }
+  }
+}
+
+/**
+ * Quota checks against the budget snapshot taken when the task was sent
+ * Usage is reported to the main thread, which records it in the real QuotaManager
+ */
+class QuotaSnapshotProxy implements TaskQuota {
+  private used: Map<QuotaName, number> = new Map()
+
+  constructor(private readonly snapshot: QuotaSnapshot) {}
+
+  hasCapacity(name: QuotaName, amount: number = 1): boolean {
+    const remaining = this.snapshot[name].remaining
+    return remaining === null || (this.used.get(name) ?? 0) + amount <= remaining
+  }
+
+  assertAvailable(name: QuotaName, amount: number = 1): void {
+    const limit = this.snapshot[name].limit
+    if (limit !== null && amount > limit) {
+      throw new QuotaMisconfiguredError(name, limit, amount)
+    }
+    if (!this.hasCapacity(name, amount)) {
+      throw new QuotaExceededError(name, this.snapshot[name].retryAfterMs)
+    }
+  }
+
+  acquire(name: QuotaName, amount: number = 1): void {
+    this.assertAvailable(name, amount)
+    this.record(name, amount)
+  }
+
+  record(name: QuotaName, amount: number = 1): void {
+    if (amount <= 0) {
+      return
+    }
+    this.used.set(name, (this.used.get(name) ?? 0) + amount)
+    post({ type: 'quota', name, amount })
+  }
+}
+
+/**
+ * Post a request to the main thread and wait for its apiResult reply
+ */
+function callMainThread<T>(createMessage: (callId: number) => WorkerToMainMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const callId = nextCallId++
+    pendingCalls.set(callId, { resolve, reject })
+    post(createMessage(callId))
+  })
+}
+
+/**
+ * BackendApiClient stand-in that forwards every method call to the main thread
+ */
+function createApiClientProxy(): BackendApiClient {
+  return new Proxy({}, {
+    get: (_target, method) => {
+      if (typeof method !== 'string' || method === 'then') {
+        return undefined
+      }
+      return (...args: any[]) => callMainThread(callId => ({ type: 'apiCall', callId, method, args }))
+    },
+  }) as BackendApiClient
+}
+
+/**
+ * Runs a request through the main thread's circuit breaker for the target and path,
+ * so breaker state, /status, resets and state change signals are shared by all threads
+ */
+class MainThreadCircuitBreaker implements Pick<CircuitBreakerPolicy, 'execute'> {
+  constructor(
+    private readonly target: HttpTarget,
+    private readonly path: string
+  ) {}
+
+  async execute<T>(fn: () => Promise<T>, extendMs?: number): Promise<T> {
+    const { target, path } = this
+    const admitted = await callMainThread<{ timeoutMs: number }>(callId => ({ type: 'breakerAdmit', callId, target, path }))
+
+    const startedAt = Date.now()
+    try {
+      const result = await runWithTimeout(fn, admitted.timeoutMs + (extendMs ?? 0))
+      post({ type: 'breakerResult', target, path, durationMs: Date.now() - startedAt })
+      return result
+    } catch (error: unknown) {
+      post({ type: 'breakerResult', target, path, durationMs: Date.now() - startedAt, error: serializeError(error) })
+      throw error
+    }
+  }
+}
+
+/**
+ * Run a task with the built-in handler for its type and post the outcome
+ */
+async function executeTask(task: AgentTask, workerContext: WorkerTaskContext): Promise<void> {
+  const controller = new AbortController()
+  currentController = controller
+
+  if (workerContext.logLevel !== getLogLevel()) {
+    setLogLevel(workerContext.logLevel as ReturnType<typeof getLogLevel>)
+  }
+
+  const context: TaskContext = {
+    config: data.config,
+    apiClient: createApiClientProxy(),
+    httpClients,
+    instanceId: workerContext.instanceId,
+    workspaceId: workerContext.workspaceId,
+    agentId: workerContext.agentId,
+    dryRun: workerContext.dryRun,
+    workspaceConfig: workerContext.workspaceConfig,
+    backendConfig: workerContext.backendConfig,
+    signal: controller.signal,
+    reportProgress: (progress) => post({ type: 'progress', progress }),
+    quota: new QuotaSnapshotProxy(workerContext.quota),
+  }
+
+  try {
+    const handler = handlers.get(task.type)
+    if (!handler) {
+      throw new Error(`No handler registered for task type: ${task.type}`)
+    }
+
+    const result = await tracer.startActiveSpan(`handler ${task.type}`, {
+      traceparent: workerContext.traceparent,
+      attributes: { 'task.id': task.id, 'thread.isolated': true },
+    }, () => handler.execute(task, context))
+
+    await tracer.flush()
+    post({ type: 'result', result })
+  } catch (error: unknown) {
+    await tracer.flush()
+    post({ type: 'error', error: serializeError(error) })
+  } finally {
+    currentController = null
+  }
+}
+
+port.on('message', (message: MainToWorkerMessage) => {
+  switch (message.type) {
+    case 'execute':
+      void executeTask(message.task, message.context)
+      break
+
+    case 'abort':
+      currentController?.abort(new Error(message.reason))
+      break
+
+    case 'apiResult': {
+      const pending = pendingCalls.get(message.callId)
+      if (!pending) {
+        break
+      }
+      pendingCalls.delete(message.callId)
+      if (message.error) {
+        pending.reject(deserializeError(message.error))
+      } else {
+        pending.resolve(message.result)
+      }
+      break
+    }
+  }
+})
+
+metricsRegistry.forwardTo(update => post({ type: 'metric', update }))
+
+if (data.tracingEnabled) {
+  tracer.configure([new ParentPortSpanExporter()], {
+    serviceName: data.config.serviceName,
+    serviceVersion: 'worker',
+  })
+}
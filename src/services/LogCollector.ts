@@ -9,6 +9,7 @@ import * as fs from 'fs'
 import * as path from 'path'
 import * as readline from 'readline'
 import { getLogDirectory, getLogFilePath } from '../utils/logger'
+import type { StateStore } from '../state/StateStore'
 
 export interface LogEntry {
   level: number
@@ -26,6 +27,12 @@ export interface ParsedLogEntry {
   metadata?: Record<string, any>
 }
 
+// Read position as persisted in the state store
+interface LogReadPosition {
+  position: number
+  inode: number | null
+}
+
 // Pino log levels mapping
 const PINO_LEVELS: Record<number, 'debug' | 'info' | 'warn' | 'error'> = {
   10: 'debug', // trace
@@ -41,12 +48,30 @@ export class LogCollector {
   private currentLogFile: string
   private lastReadPosition: number = 0
   private lastReadInode: number | null = null
+  private stateStore: StateStore | null = null
 
-  constructor() {
+  /**
+   * @param workspace Only collect lines tagged with this workspace (multi-workspace mode)
+   */
+  constructor(private readonly workspace?: string) {
     this.logDir = getLogDirectory()
     this.currentLogFile = getLogFilePath()
   }
 
+  /**
+   * Persist the read position in a state store so a restart resumes where shipping stopped
+   * A saved position is restored immediately
+   */
+  setStateStore(stateStore: StateStore): void {
+    this.stateStore = stateStore
+
+    const saved = stateStore.get<LogReadPosition>(this.getStateKey())
+    if (saved && typeof saved.position === 'number') {
+      this.lastReadPosition = saved.position
+      this.lastReadInode = saved.inode ?? null
+    }
+  }
+
   /**
    * Collect new log entries since last read
    * Returns parsed log entries ready for transfer
@@ -80,13 +105,17 @@ export class LogCollector {
 
       for (const entry of newEntries) {
         const parsed = this.parseLogEntry(entry.content)
-        if (parsed) {
+        if (parsed && this.belongsToWorkspace(parsed)) {
           entries.push(parsed)
         }
         // Update position after each entry
         this.lastReadPosition = entry.endPosition
       }
 
+      if (newEntries.length > 0) {
+        this.savePosition()
+      }
+
     } catch (error: any) {
       console.error(`[LogCollector] Error collecting logs: ${error.message}`)
     }
@@ -191,6 +220,31 @@ export class LogCollector {
     }
   }
 
+  /**
+   * Key of this collector's read position in the state store
+   */
+  private getStateKey(): string {
+    return this.workspace ? `logCollector:${this.workspace}` : 'logCollector'
+  }
+
+  /**
+   * Write the read position to the state store, if one is attached
+   */
+  private savePosition(): void {
+    this.stateStore?.set<LogReadPosition>(this.getStateKey(), {
+      position: this.lastReadPosition,
+      inode: this.lastReadInode,
+    })
+  }
+
+  /**
+   * Check whether an entry may be shipped by this collector
+   * A workspace collector never ships another workspace's (or host-level) lines
+   */
+  private belongsToWorkspace(entry: ParsedLogEntry): boolean {
+    return !this.workspace || entry.metadata?.workspace === this.workspace
+  }
+
   /**
    * Get list of all log files in the log directory
    * Includes rotated files (e.g., agent.log.1.gz)
@@ -229,14 +283,53 @@ export class LogCollector {
     }
   }
 
+  /**
+   * Bytes in the current log file not yet collected for shipping
+   */
+  getLagBytes(): number {
+    try {
+      if (!fs.existsSync(this.currentLogFile)) {
+        return 0
+      }
+      const stats = fs.statSync(this.currentLogFile)
+      // A rotated file has not been read at all yet
+      if (this.lastReadInode !== null && this.lastReadInode !== stats.ino) {
+        return stats.size
+      }
+      return Math.max(0, stats.size - this.lastReadPosition)
+    } catch {
+      return 0
+    }
+  }
+
   /**
    * Reset the read position (useful after manual cleanup)
    */
   resetPosition(): void {
     this.lastReadPosition = 0
     this.lastReadInode = null
+    this.savePosition()
   }
 }
 
 // Export singleton instance
 export const logCollector = new LogCollector()
+
+// Per-workspace collectors, each with its own read position
+const workspaceCollectors: Map<string, LogCollector> = new Map()
+
+/**
+ * Collector for a workspace of a multi-workspace agent (the shared collector otherwise)
+ */
+export function getLogCollector(workspace?: string): LogCollector {
+  if (!workspace) {
+    return logCollector
+  }
+
+  let collector = workspaceCollectors.get(workspace)
+  if (!collector) {
+    collector = new LogCollector(workspace)
+    workspaceCollectors.set(workspace, collector)
+  }
+  return collector
+}
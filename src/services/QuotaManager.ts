@@ -0,0 +1,351 @@
+/**
+ * QuotaManager - Enforces backend-provided hourly limits locally
+ *
+ * Keeps a sliding one-hour window of usage per limit name. Handlers consult it
+ * before doing billable work, and the runtime defers tasks whose budget is spent.
+ * A dispatched task reserves the budget it may use, so tasks running at the same
+ * time cannot all pass the pre-claim check and then fail on the shared budget.
+ */
+
+import type { AgentConfigResponse, AgentTask } from '../api/BackendApiClient'
+import { logger } from '../utils/logger'
+
+export type QuotaName = 'ado_syncs' | 'suggestion_requests' | 'openai_tokens'
+
+export interface QuotaStatus {
+  limit: number | null  // null = unlimited
+  used: number
+  remaining: number | null
+}
+
+/**
+ * Point-in-time budget per quota, handed to handlers running in worker threads
+ */
+export type QuotaSnapshot = Record<QuotaName, { limit: number | null; remaining: number | null; retryAfterMs: number }>
+
+/**
+ * Quota operations available to task handlers
+ * Implemented by QuotaManager, and by a snapshot-backed proxy in worker threads
+ */
+export type TaskQuota = Pick<QuotaManager, 'hasCapacity' | 'assertAvailable' | 'acquire' | 'record'>
+
+const QUOTA_NAMES: QuotaName[] = ['ado_syncs', 'suggestion_requests', 'openai_tokens']
+
+const WINDOW_MS = 60 * 60 * 1000 // 1 hour
+
+// Completion token cap sent to Azure OpenAI by suggestion tasks, also part of their reserved budget
+export const MAX_COMPLETION_TOKENS = 2000
+// Prompt tokens reserved per suggestion task before its prompt is known (a large work item)
+export const SUGGESTION_PROMPT_TOKEN_ESTIMATE = 2000
+// Characters per token for prompt estimates - English averages ~4, so 3 errs on the high side
+const CHARS_PER_TOKEN = 3
+
+// Budget one task of a type may use - checked before claiming and reserved while it runs
+const TASK_TYPE_QUOTAS: Partial<Record<AgentTask['type'], Partial<Record<QuotaName, number>>>> = {
+  fetcher: { ado_syncs: 1 },
+  suggestion: { suggestion_requests: 1, openai_tokens: SUGGESTION_PROMPT_TOKEN_ESTIMATE + MAX_COMPLETION_TOKENS },
+}
+
+/**
+ * Upper estimate of the tokens a prompt uses, for budget checks before the call
+ * (Azure OpenAI reports the real count in the response usage block)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Error thrown when work would exceed a quota
+ * The runtime reports it as a retryable failure
+ */
+export class QuotaExceededError extends Error {
+  constructor(
+    public readonly quota: QuotaName,
+    public readonly retryAfterMs: number
+  ) {
+    super(`Hourly limit reached for ${quota}, retry in ${Math.ceil(retryAfterMs / 1000)}s`)
+    this.name = 'QuotaExceededError'
+  }
+}
+
+/**
+ * Error thrown when a single piece of work needs more than the whole hourly limit
+ * Waiting cannot help, so the runtime fails the task instead of deferring it
+ */
+export class QuotaMisconfiguredError extends Error {
+  constructor(
+    public readonly quota: QuotaName,
+    public readonly limit: number,
+    public readonly required: number
+  ) {
+    super(`Hourly limit for ${quota} (${limit}) is below what one task needs (${required}), raise it in the backend config`)
+    this.name = 'QuotaMisconfiguredError'
+  }
+}
+
+interface UsageEntry {
+  time: number
+  amount: number
+}
+
+export class QuotaManager {
+  private limits: Map<QuotaName, number> = new Map()
+  private usage: Map<QuotaName, UsageEntry[]> = new Map()
+  private reserved: Map<QuotaName, number> = new Map()  // Held by running tasks, not yet used
+
+  /**
+   * Update limits from backend config
+   * Non-positive values are treated as unlimited
+   */
+  setLimits(limits: AgentConfigResponse['limits']): void {
+    const next: Array<[QuotaName, number]> = [
+      ['ado_syncs', limits.max_ado_syncs_per_hour],
+      ['suggestion_requests', limits.max_suggestion_requests_per_hour],
+      ['openai_tokens', limits.max_openai_tokens_per_hour],
+    ]
+
+    this.limits.clear()
+    for (const [name, limit] of next) {
+      if (limit > 0) {
+        this.limits.set(name, limit)
+      }
+    }
+
+    logger.debug('Quota limits updated', { limits: Object.fromEntries(this.limits) })
+
+    // Tasks of these types are failed instead of deferred (see QuotaMisconfiguredError)
+    for (const [type, amounts] of Object.entries(TASK_TYPE_QUOTAS)) {
+      for (const [name, amount] of Object.entries(amounts ?? {}) as Array<[QuotaName, number]>) {
+        if (this.exceedsLimit(name, amount)) {
+          logger.error('Hourly limit is below the budget of a single task, these tasks will fail', {
+            taskType: type,
+            quota: name,
+            limit: this.limits.get(name),
+            required: amount,
+          })
+        }
+      }
+    }
+  }
+
+  /**
+   * Check whether `amount` more units fit in the current window, next to the reserved budget
+   */
+  hasCapacity(name: QuotaName, amount: number = 1): boolean {
+    const limit = this.limits.get(name)
+    if (limit === undefined) {
+      return true
+    }
+    return this.getUsed(name) + (this.reserved.get(name) ?? 0) + amount <= limit
+  }
+
+  /**
+   * Check whether the budget of one task of a type fits in every quota it draws from
+   */
+  canRunTaskType(type: string): boolean {
+    // A quota that can never fit is not a reason to defer - the task fails with QuotaMisconfiguredError
+    return Object.entries(this.getTaskTypeQuotas(type))
+      .every(([name, amount]) => this.exceedsLimit(name as QuotaName, amount) || this.hasCapacity(name as QuotaName, amount))
+  }
+
+  /**
+   * Reserve the budget of one task of a type until the reservation is released
+   * Handlers of the task use the reservation as their TaskQuota
+   */
+  reserve(type: string): QuotaReservation {
+    const amounts: Partial<Record<QuotaName, number>> = {}
+    for (const [name, amount] of Object.entries(this.getTaskTypeQuotas(type)) as Array<[QuotaName, number]>) {
+      if (!this.exceedsLimit(name, amount)) {
+        amounts[name] = amount
+        this.reserved.set(name, (this.reserved.get(name) ?? 0) + amount)
+      }
+    }
+    return new QuotaReservation(this, amounts)
+  }
+
+  /**
+   * Return reserved budget that a task used or no longer needs
+   */
+  unreserve(name: QuotaName, amount: number): void {
+    this.reserved.set(name, Math.max(0, (this.reserved.get(name) ?? 0) - amount))
+  }
+
+  /**
+   * Throw QuotaExceededError if `amount` more units do not fit, or
+   * QuotaMisconfiguredError if they never can
+   */
+  assertAvailable(name: QuotaName, amount: number = 1): void {
+    this.assertWithinLimit(name, amount)
+    if (!this.hasCapacity(name, amount)) {
+      throw new QuotaExceededError(name, this.getRetryAfterMs(name))
+    }
+  }
+
+  /**
+   * Check capacity and record usage in one step
+   */
+  acquire(name: QuotaName, amount: number = 1): void {
+    this.assertAvailable(name, amount)
+    this.record(name, amount)
+  }
+
+  /**
+   * Record usage without checking (e.g. actual tokens after an OpenAI call)
+   */
+  record(name: QuotaName, amount: number = 1): void {
+    if (amount <= 0) {
+      return
+    }
+    const entries = this.usage.get(name) ?? []
+    entries.push({ time: Date.now(), amount })
+    this.usage.set(name, entries)
+  }
+
+  /**
+   * Get remaining budget per quota for heartbeats and monitoring
+   */
+  getStatus(): Record<QuotaName, QuotaStatus> {
+    const status = {} as Record<QuotaName, QuotaStatus>
+
+    for (const name of QUOTA_NAMES) {
+      const limit = this.limits.get(name) ?? null
+      const used = this.getUsed(name)
+      status[name] = {
+        limit,
+        used,
+        remaining: limit === null ? null : Math.max(0, limit - used),
+      }
+    }
+
+    return status
+  }
+
+  /**
+   * Get remaining budget and retry delay per quota for handlers in worker threads
+   * Budget reserved by running tasks is not remaining
+   */
+  getSnapshot(): QuotaSnapshot {
+    const snapshot = {} as QuotaSnapshot
+
+    for (const name of QUOTA_NAMES) {
+      const limit = this.limits.get(name)
+      snapshot[name] = {
+        limit: limit ?? null,
+        remaining: limit === undefined ? null : Math.max(0, limit - this.getUsed(name) - (this.reserved.get(name) ?? 0)),
+        retryAfterMs: this.getRetryAfterMs(name),
+      }
+    }
+
+    return snapshot
+  }
+
+  /**
+   * Throw QuotaMisconfiguredError if `amount` exceeds the whole limit
+   */
+  assertWithinLimit(name: QuotaName, amount: number): void {
+    if (this.exceedsLimit(name, amount)) {
+      throw new QuotaMisconfiguredError(name, this.limits.get(name)!, amount)
+    }
+  }
+
+  private exceedsLimit(name: QuotaName, amount: number): boolean {
+    const limit = this.limits.get(name)
+    return limit !== undefined && amount > limit
+  }
+
+  private getTaskTypeQuotas(type: string): Partial<Record<QuotaName, number>> {
+    return TASK_TYPE_QUOTAS[type as AgentTask['type']] ?? {}
+  }
+
+  /**
+   * Sum usage inside the window, dropping expired entries
+   */
+  private getUsed(name: QuotaName): number {
+    const cutoff = Date.now() - WINDOW_MS
+    const entries = (this.usage.get(name) ?? []).filter(entry => entry.time > cutoff)
+    this.usage.set(name, entries)
+    return entries.reduce((sum, entry) => sum + entry.amount, 0)
+  }
+
+  /**
+   * Time until the oldest usage entry leaves the window
+   */
+  private getRetryAfterMs(name: QuotaName): number {
+    const oldest = this.usage.get(name)?.[0]
+    if (!oldest) {
+      return 0
+    }
+    return Math.max(0, oldest.time + WINDOW_MS - Date.now())
+  }
+}
+
+/**
+ * Budget reserved for one running task, used as that task's TaskQuota
+ *
+ * The task's own usage is drawn from the reservation first, so its checks only
+ * compete with other tasks for the part beyond what it reserved. release() returns
+ * what is left when the task ends.
+ */
+export class QuotaReservation implements TaskQuota {
+  private remaining: Map<QuotaName, number>
+
+  constructor(
+    private readonly manager: QuotaManager,
+    amounts: Partial<Record<QuotaName, number>>
+  ) {
+    this.remaining = new Map(Object.entries(amounts) as Array<[QuotaName, number]>)
+  }
+
+  hasCapacity(name: QuotaName, amount: number = 1): boolean {
+    const beyondReservation = amount - (this.remaining.get(name) ?? 0)
+    return beyondReservation <= 0 || this.manager.hasCapacity(name, beyondReservation)
+  }
+
+  assertAvailable(name: QuotaName, amount: number = 1): void {
+    this.manager.assertWithinLimit(name, amount)
+    if (!this.hasCapacity(name, amount)) {
+      this.manager.assertAvailable(name, amount - (this.remaining.get(name) ?? 0))
+    }
+  }
+
+  acquire(name: QuotaName, amount: number = 1): void {
+    this.assertAvailable(name, amount)
+    this.record(name, amount)
+  }
+
+  record(name: QuotaName, amount: number = 1): void {
+    if (amount <= 0) {
+      return
+    }
+    const fromReservation = Math.min(amount, this.remaining.get(name) ?? 0)
+    if (fromReservation > 0) {
+      this.remaining.set(name, (this.remaining.get(name) ?? 0) - fromReservation)
+      this.manager.unreserve(name, fromReservation)
+    }
+    this.manager.record(name, amount)
+  }
+
+  /**
+   * Budget snapshot for a worker thread, including what this task has reserved
+   */
+  getSnapshot(): QuotaSnapshot {
+    const snapshot = this.manager.getSnapshot()
+    for (const [name, amount] of this.remaining) {
+      const entry = snapshot[name]
+      if (entry.remaining !== null) {
+        entry.remaining += amount
+      }
+    }
+    return snapshot
+  }
+
+  /**
+   * Return the unused reservation (call once, when the task ends)
+   */
+  release(): void {
+    for (const [name, amount] of this.remaining) {
+      this.manager.unreserve(name, amount)
+    }
+    this.remaining.clear()
+  }
+}
@@ -0,0 +1,95 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { randomUUID } from 'crypto'
+import { logger } from '../utils/logger'
+
+/**
+ * Stable identity of this agent installation
+ * The instance ID survives restarts and upgrades as long as the data directory is kept
+ */
+export interface AgentIdentity {
+  instanceId: string
+  createdAt: string
+}
+
+const IDENTITY_FILE = 'agent-identity.json'
+
+const INSTANCE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * File-backed store for the agent instance ID (`<dataDir>/agent-identity.json`)
+ *
+ * The ID is generated on first start and written atomically (temp file + rename).
+ * A corrupt file is moved aside and a new ID generated, which the backend sees as
+ * a new instance.
+ */
+export class AgentIdentityStore {
+  private readonly filePath: string
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, IDENTITY_FILE)
+  }
+
+  /**
+   * Load the persisted identity, creating one on first start
+   */
+  loadOrCreate(): AgentIdentity {
+    const existing = this.load()
+    if (existing) {
+      return existing
+    }
+
+    const identity: AgentIdentity = {
+      instanceId: randomUUID(),
+      createdAt: new Date().toISOString(),
+    }
+    this.save(identity)
+    logger.info('Generated new agent instance ID', { instanceId: identity.instanceId, file: this.filePath })
+    return identity
+  }
+
+  /**
+   * Read the identity file
+   * A corrupt file is moved aside so a new identity can be written
+   */
+  private load(): AgentIdentity | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+      if (typeof data.instanceId !== 'string' || !INSTANCE_ID_PATTERN.test(data.instanceId)) {
+        throw new Error('instanceId is missing or not a UUID')
+      }
+      return {
+        instanceId: data.instanceId,
+        createdAt: typeof data.createdAt === 'string' ? data.createdAt : new Date().toISOString(),
+      }
+    } catch (error: any) {
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`
+      logger.error('Agent identity file is corrupt, generating a new instance ID', { file: this.filePath, movedTo: corruptPath, error: error.message })
+      try {
+        fs.renameSync(this.filePath, corruptPath)
+      } catch {
+        // Ignore - the next save overwrites it
+      }
+      return null
+    }
+  }
+
+  /**
+   * Write the identity to disk atomically (temp file + rename)
+   * A failed write is logged; the ID is still used for this run
+   */
+  private save(identity: AgentIdentity): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const tmpPath = `${this.filePath}.tmp`
+      fs.writeFileSync(tmpPath, JSON.stringify(identity, null, 2))
+      fs.renameSync(tmpPath, this.filePath)
+    } catch (error: any) {
+      logger.error('Failed to persist agent identity, instance ID will change on restart', { file: this.filePath, error: error.message })
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto'
+import type { AgentConfigResponse, WorkspaceConfigResponse } from '../api/BackendApiClient'
+import type { StateStore } from './StateStore'
+import { logger } from '../utils/logger'
+
+// State store keys
+const AGENT_CONFIG_KEY = 'lastKnownGood.agentConfig'
+const WORKSPACE_CONFIG_KEY = 'lastKnownGood.workspaceConfig'
+
+// Workspace config holds ADO/OpenAI credentials - encrypted with a key derived from the API key
+const CIPHER = 'aes-256-gcm'
+const KEY_INFO = 'adno-agent workspace-config cache'
+
+interface CachedAgentConfig {
+  savedAt: string
+  config: AgentConfigResponse
+}
+
+interface EncryptedWorkspaceConfig {
+  savedAt: string
+  salt: string  // base64
+  iv: string  // base64
+  tag: string  // base64
+  data: string  // base64 ciphertext of the JSON config
+}
+
+/**
+ * A cached config with the time it was fetched from the backend
+ */
+export interface CachedConfig<T> {
+  config: T
+  savedAt: string
+}
+
+/**
+ * Last-known-good backend configuration, used to start while the backend is unreachable
+ *
+ * The agent config is stored as-is; the workspace config is encrypted with
+ * AES-256-GCM under a key derived from the agent API key, so the cached
+ * credentials are unreadable without the key and a rotated key discards them.
+ */
+export class ConfigCache {
+  constructor(
+    private readonly stateStore: StateStore,
+    private readonly apiKey: string
+  ) {}
+
+  saveAgentConfig(config: AgentConfigResponse): void {
+    this.stateStore.set<CachedAgentConfig>(AGENT_CONFIG_KEY, { savedAt: new Date().toISOString(), config })
+  }
+
+  getAgentConfig(): CachedConfig<AgentConfigResponse> | null {
+    const cached = this.stateStore.get<CachedAgentConfig>(AGENT_CONFIG_KEY)
+    return cached?.config ? { config: cached.config, savedAt: cached.savedAt } : null
+  }
+
+  saveWorkspaceConfig(config: WorkspaceConfigResponse): void {
+    const salt = randomBytes(16)
+    const iv = randomBytes(12)
+    const cipher = createCipheriv(CIPHER, this.deriveKey(salt), iv)
+    const data = Buffer.concat([cipher.update(JSON.stringify(config), 'utf8'), cipher.final()])
+
+    this.stateStore.set<EncryptedWorkspaceConfig>(WORKSPACE_CONFIG_KEY, {
+      savedAt: new Date().toISOString(),
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    })
+  }
+
+  /**
+   * Decrypt the cached workspace config
+   * Returns null when there is none or it cannot be decrypted (API key changed, tampering)
+   */
+  getWorkspaceConfig(): CachedConfig<WorkspaceConfigResponse> | null {
+    const cached = this.stateStore.get<EncryptedWorkspaceConfig>(WORKSPACE_CONFIG_KEY)
+    if (!cached) {
+      return null
+    }
+
+    try {
+      const decipher = createDecipheriv(CIPHER, this.deriveKey(Buffer.from(cached.salt, 'base64')), Buffer.from(cached.iv, 'base64'))
+      decipher.setAuthTag(Buffer.from(cached.tag, 'base64'))
+      const json = Buffer.concat([decipher.update(Buffer.from(cached.data, 'base64')), decipher.final()]).toString('utf8')
+      return { config: JSON.parse(json), savedAt: cached.savedAt }
+    } catch (error: any) {
+      logger.warn('Cached workspace config cannot be decrypted, discarding it', { error: error.message })
+      this.stateStore.delete(WORKSPACE_CONFIG_KEY)
+      return null
+    }
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return Buffer.from(hkdfSync('sha256', this.apiKey, salt, KEY_INFO, 32))
+  }
+}
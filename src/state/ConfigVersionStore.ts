@@ -1,3 +1,5 @@
+import type { StateStore } from './StateStore'
+
 /**
  * Interface for storing and retrieving configuration version
  * Separates config version tracking from HTTP client concerns
@@ -22,3 +24,24 @@ export class InMemoryConfigVersionStore implements ConfigVersionStore {
     this.version = version
   }
 }
+
+// State store key of the persisted config version
+const CONFIG_VERSION_KEY = 'configVersion'
+
+/**
+ * Config version store backed by the durable state store
+ * The last known version survives restarts
+ */
+export class PersistentConfigVersionStore implements ConfigVersionStore {
+  constructor(private readonly stateStore: StateStore) {}
+
+  getVersion(): string | null {
+    return this.stateStore.get<string>(CONFIG_VERSION_KEY) ?? null
+  }
+
+  setVersion(version: string): void {
+    if (version !== this.getVersion()) {
+      this.stateStore.set(CONFIG_VERSION_KEY, version)
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { randomUUID } from 'crypto'
+import { logger } from '../utils/logger'
+
+/**
+ * A backend submission waiting to be replayed
+ * The idempotency key is sent with every attempt so the backend can dedupe
+ */
+export interface OutboxEntry {
+  idempotencyKey: string
+  kind: 'complete' | 'fail' | 'signals'
+  path: string
+  body: Record<string, any>
+  taskId?: string
+  attempts: number
+  createdAt: string
+  nextAttemptAt: number
+}
+
+const OUTBOX_FILE = 'outbox.json'
+
+// Oldest entries are dropped beyond this size so a long outage cannot fill the disk
+const MAX_ENTRIES = 1000
+
+// Replay backoff per entry: 5s doubling up to 5 minutes
+const BASE_BACKOFF_MS = 5000
+const MAX_BACKOFF_MS = 5 * 60 * 1000
+
+/**
+ * Create a new idempotency key for a submission
+ */
+export function createIdempotencyKey(): string {
+  return randomUUID()
+}
+
+/**
+ * File-backed outbound queue for submissions the backend did not receive
+ *
+ * Entries are kept in memory and written to `<dataDir>/outbox.json` with an
+ * atomic rename after every change, so a crash never leaves a half-written file.
+ */
+export class Outbox {
+  private readonly filePath: string
+  private entries: OutboxEntry[] = []
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, OUTBOX_FILE)
+    this.load()
+  }
+
+  /**
+   * Queue a submission for replay
+   * Entries with an idempotency key already in the queue are ignored
+   */
+  enqueue(entry: Omit<OutboxEntry, 'attempts' | 'createdAt' | 'nextAttemptAt'>): void {
+    if (this.entries.some(e => e.idempotencyKey === entry.idempotencyKey)) {
+      return
+    }
+
+    this.entries.push({
+      ...entry,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: Date.now() + BASE_BACKOFF_MS,
+    })
+
+    if (this.entries.length > MAX_ENTRIES) {
+      const dropped = this.entries.splice(0, this.entries.length - MAX_ENTRIES)
+      logger.warn('Outbox full, dropped oldest entries', { dropped: dropped.length })
+    }
+
+    this.save()
+    logger.info('Queued submission for replay', {
+      kind: entry.kind,
+      taskId: entry.taskId,
+      queued: this.entries.length,
+    })
+  }
+
+  /**
+   * Entries whose backoff has elapsed, oldest first
+   */
+  getDue(now: number = Date.now()): OutboxEntry[] {
+    return this.entries.filter(e => e.nextAttemptAt <= now)
+  }
+
+  /**
+   * Remove a delivered (or permanently rejected) entry
+   */
+  remove(idempotencyKey: string): void {
+    this.entries = this.entries.filter(e => e.idempotencyKey !== idempotencyKey)
+    this.save()
+  }
+
+  /**
+   * Schedule the next attempt for an entry with exponential backoff
+   */
+  markFailed(idempotencyKey: string): void {
+    const entry = this.entries.find(e => e.idempotencyKey === idempotencyKey)
+    if (!entry) {
+      return
+    }
+
+    entry.attempts++
+    const backoff = Math.min(BASE_BACKOFF_MS * Math.pow(2, entry.attempts), MAX_BACKOFF_MS)
+    entry.nextAttemptAt = Date.now() + backoff
+    this.save()
+  }
+
+  /**
+   * Number of queued entries
+   */
+  size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Load entries from disk
+   * A corrupt file is moved aside so the agent can keep running
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+      this.entries = Array.isArray(data.entries) ? data.entries : []
+      if (this.entries.length > 0) {
+        logger.info('Loaded outbox entries for replay', { count: this.entries.length })
+      }
+    } catch (error: any) {
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`
+      logger.error('Outbox file is corrupt, starting empty', { file: this.filePath, movedTo: corruptPath, error: error.message })
+      try {
+        fs.renameSync(this.filePath, corruptPath)
+      } catch {
+        // Ignore - the next save overwrites it
+      }
+      this.entries = []
+    }
+  }
+
+  /**
+   * Write entries to disk atomically (temp file + rename)
+   */
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const tmpPath = `${this.filePath}.tmp`
+      fs.writeFileSync(tmpPath, JSON.stringify({ entries: this.entries }))
+      fs.renameSync(tmpPath, this.filePath)
+    } catch (error: any) {
+      logger.error('Failed to persist outbox', { file: this.filePath, error: error.message })
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { logger } from '../utils/logger'
+
+/**
+ * Durable key-value store for small pieces of runtime state that must survive restarts
+ * (config version, log shipping position, ...). Values must be JSON-serializable.
+ */
+export interface StateStore {
+  get<T>(key: string): T | undefined
+  set<T>(key: string, value: T): void
+  delete(key: string): void
+}
+
+const STATE_FILE = 'state.json'
+
+// Bump when the layout of stored values changes and add a migration from the previous version
+const STATE_SCHEMA_VERSION = 1
+
+// Upgrades keyed by the schema version they upgrade from (applied in order up to STATE_SCHEMA_VERSION)
+const MIGRATIONS: Record<number, (entries: Record<string, unknown>) => Record<string, unknown>> = {}
+
+/**
+ * File-backed state store (`<dataDir>/state.json`)
+ *
+ * Entries are kept in memory and written with an atomic rename after every change,
+ * so a crash never leaves a half-written file. A corrupt file, or one written by a
+ * newer agent version, is moved aside and the store starts empty.
+ */
+export class FileStateStore implements StateStore {
+  private readonly filePath: string
+  private entries: Record<string, unknown> = {}
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, STATE_FILE)
+    this.load()
+  }
+
+  get<T>(key: string): T | undefined {
+    return this.entries[key] as T | undefined
+  }
+
+  set<T>(key: string, value: T): void {
+    this.entries[key] = value
+    this.save()
+  }
+
+  delete(key: string): void {
+    if (key in this.entries) {
+      delete this.entries[key]
+      this.save()
+    }
+  }
+
+  /**
+   * Load entries from disk, migrating older schema versions
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return
+    }
+
+    let data: any
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+      if (!data || typeof data !== 'object' || typeof data.entries !== 'object' || data.entries === null) {
+        throw new Error('missing entries')
+      }
+    } catch (error: any) {
+      this.moveAside('corrupt', 'State file is corrupt, starting empty', { error: error.message })
+      return
+    }
+
+    const version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0
+    if (version > STATE_SCHEMA_VERSION) {
+      // Written by a newer agent - keep it for a later upgrade instead of overwriting it
+      this.moveAside(`v${version}`, 'State file was written by a newer agent version, starting empty', {
+        schemaVersion: version,
+        supported: STATE_SCHEMA_VERSION,
+      })
+      return
+    }
+
+    let entries: Record<string, unknown> = data.entries
+    try {
+      for (let from = version; from < STATE_SCHEMA_VERSION; from++) {
+        entries = MIGRATIONS[from]?.(entries) ?? entries
+      }
+    } catch (error: any) {
+      this.moveAside('corrupt', 'State file migration failed, starting empty', { schemaVersion: version, error: error.message })
+      return
+    }
+
+    this.entries = entries
+    if (version !== STATE_SCHEMA_VERSION) {
+      logger.info('Migrated state file', { from: version, to: STATE_SCHEMA_VERSION })
+      this.save()
+    }
+  }
+
+  /**
+   * Rename the state file so the store can start empty without losing it
+   */
+  private moveAside(suffix: string, message: string, data: Record<string, any>): void {
+    const asidePath = `${this.filePath}.${suffix}-${Date.now()}`
+    logger.error(message, { file: this.filePath, movedTo: asidePath, ...data })
+    try {
+      fs.renameSync(this.filePath, asidePath)
+    } catch {
+      // Ignore - the next save overwrites it
+    }
+  }
+
+  /**
+   * Write entries to disk atomically (temp file + rename)
+   */
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const tmpPath = `${this.filePath}.tmp`
+      fs.writeFileSync(tmpPath, JSON.stringify({ schemaVersion: STATE_SCHEMA_VERSION, entries: this.entries }))
+      fs.renameSync(tmpPath, this.filePath)
+    } catch (error: any) {
+      logger.error('Failed to persist state', { file: this.filePath, error: error.message })
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import type { TaskHandler, TaskContext } from '../runtime/TaskExecutor'
 import type { AgentTask } from '../api/BackendApiClient'
 import { logger } from '../utils/logger'
-import { createAuthenticatedClient } from '../utils/authenticated-http'
+import { DryRunReport } from './DryRunReport'
 
 interface Vote {
   id: string
@@ -24,6 +24,8 @@ export class ApplyHandler implements TaskHandler {
       throw new Error('candidate_id is required in payload')
     }
 
+    const dryRunReport = context.dryRun ? new DryRunReport() : null
+
     try {
       // 1. Fetch candidate and votes from backend
       const [candidate, votes] = await Promise.all([
@@ -52,7 +54,7 @@ export class ApplyHandler implements TaskHandler {
       })
 
       // 3. Send result to backend for persistence
-      await this.submitConsensusResult(context, {
+      await this.submitConsensusResult(context, dryRunReport, {
         candidateId,
         consensusReached,
         approvalCount: yesVotes.length,
@@ -67,6 +69,7 @@ export class ApplyHandler implements TaskHandler {
         consensus_reached: consensusReached,
         approval_count: yesVotes.length,
         success: true,
+        ...dryRunReport?.toResult(),
       }
     } catch (error: any) {
       logger.error('Consensus evaluation failed', { error: error.message })
@@ -78,24 +81,25 @@ export class ApplyHandler implements TaskHandler {
    * Fetch candidate from backend
    */
   private async fetchCandidate(context: TaskContext, candidateId: string): Promise<any> {
-    const client = createAuthenticatedClient(context)
-    return await client.get(`/api/agent/candidates/${candidateId}`)
+    return await context.httpClients.get('backend').request(`/api/agent/candidates/${candidateId}`, { signal: context.signal })
   }
 
   /**
    * Fetch votes for a candidate from backend
    */
   private async fetchVotes(context: TaskContext, candidateId: string): Promise<Vote[]> {
-    const client = createAuthenticatedClient(context)
-    const data = await client.get<{ votes: Vote[] }>(`/api/agent/candidates/${candidateId}/votes`)
+    const data = await context.httpClients.get('backend').request<{ votes: Vote[] }>(`/api/agent/candidates/${candidateId}/votes`, {
+      signal: context.signal,
+    })
     return data.votes || []
   }
 
   /**
-   * Submit consensus result to backend
+   * Submit consensus result to backend (recorded instead in dry-run mode)
    */
   private async submitConsensusResult(
     context: TaskContext,
+    dryRunReport: DryRunReport | null,
     result: {
       candidateId: string
       consensusReached: boolean
@@ -104,16 +108,25 @@ export class ApplyHandler implements TaskHandler {
       noVoters: string[]
     }
   ): Promise<void> {
-    const client = createAuthenticatedClient(context)
-    await client.post(
-      `/api/agent/consensus/result`,
-      {
-        candidate_id: result.candidateId,
-        consensus_reached: result.consensusReached,
-        approval_count: result.approvalCount,
-        yes_voters: result.yesVoters,
-        no_voters: result.noVoters,
-      }
-    )
+    const path = `/api/agent/consensus/result`
+    const body = {
+      candidate_id: result.candidateId,
+      consensus_reached: result.consensusReached,
+      approval_count: result.approvalCount,
+      yes_voters: result.yesVoters,
+      no_voters: result.noVoters,
+    }
+
+    if (dryRunReport) {
+      dryRunReport.record('backend_post', path, body)
+      logger.info('Dry run: skipped consensus result submission', { candidateId: result.candidateId })
+      return
+    }
+
+    await context.httpClients.get('backend').request(path, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      signal: context.signal,
+    })
   }
 }
\ No newline at end of file
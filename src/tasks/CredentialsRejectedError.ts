@@ -0,0 +1,38 @@
+import { getErrorStatus } from '../utils/HttpError'
+
+// Workspace integrations whose credentials come from the workspace config
+export type Integration = 'ado' | 'openai'
+
+export const INTEGRATION_NAMES: Record<Integration, string> = {
+  ado: 'Azure DevOps',
+  openai: 'Azure OpenAI',
+}
+
+// Statuses that mean the credentials were refused rather than the request
+const REJECTED_STATUSES = [401, 403]
+
+/**
+ * Error thrown when ADO or Azure OpenAI refuses the workspace credentials
+ * The runtime re-fetches the workspace config in case they were rotated
+ */
+export class CredentialsRejectedError extends Error {
+  constructor(
+    public readonly integration: Integration,
+    public readonly status: number,
+    message: string
+  ) {
+    super(`${INTEGRATION_NAMES[integration]} rejected the workspace credentials (HTTP ${status}): ${message}`)
+    this.name = 'CredentialsRejectedError'
+  }
+
+  /**
+   * Wrap a 401/403 from an integration API; any other error is returned as-is
+   */
+  static from(integration: Integration, error: unknown): unknown {
+    const status = getErrorStatus(error)
+    if (status === undefined || !REJECTED_STATUSES.includes(status)) {
+      return error
+    }
+    return new CredentialsRejectedError(integration, status, error instanceof Error ? error.message : String(error))
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * DryRunReport - Collects the writes a handler would have made in dry-run mode
+ *
+ * Handlers still read from ADO, the backend and Azure OpenAI, but record each
+ * write (backend POST, file deletion) here instead of performing it. The report
+ * is returned as part of the task result.
+ */
+
+/**
+ * A write skipped because of dry-run mode
+ */
+export interface IntendedAction {
+  action: 'backend_post' | 'delete_file'
+  target: string  // Backend path or file path
+  details: Record<string, any>
+}
+
+export class DryRunReport {
+  private actions: IntendedAction[] = []
+
+  /**
+   * Record a write that was not performed
+   */
+  record(action: IntendedAction['action'], target: string, details: Record<string, any> = {}): void {
+    this.actions.push({ action, target, details })
+  }
+
+  /**
+   * Result fields merged into the handler's task result
+   */
+  toResult(): { dry_run: true; intended_actions: IntendedAction[] } {
+    return { dry_run: true, intended_actions: this.actions }
+  }
+}
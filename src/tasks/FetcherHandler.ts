@@ -1,8 +1,8 @@
 import type { TaskHandler, TaskContext } from '../runtime/TaskExecutor'
 import type { AgentTask } from '../api/BackendApiClient'
 import { logger } from '../utils/logger'
-import { http } from '../utils/fetch-helper'
-import { createAuthenticatedClient } from '../utils/authenticated-http'
+import { DryRunReport } from './DryRunReport'
+import { CredentialsRejectedError } from './CredentialsRejectedError'
 
 interface AdoWorkItem {
   id: number
@@ -45,9 +45,16 @@ export class FetcherHandler implements TaskHandler {
       patToken: string
     }
 
+    // Count this sync against max_ado_syncs_per_hour (throws QuotaExceededError when spent)
+    context.quota.acquire('ado_syncs')
+
+    const dryRunReport = context.dryRun ? new DryRunReport() : null
+
     try {
       // 1. Fetch work items from ADO (with limit)
-      const workItems = await this.fetchWorkItems(validatedConfig, maxItems)
+      const workItems = await this.fetchWorkItems(validatedConfig, maxItems, context).catch(error => {
+        throw CredentialsRejectedError.from('ado', error)
+      })
       logger.info(`Fetched ${workItems.length} work items from ADO (limit: ${maxItems})`)
 
       // 2. Transform to candidate format
@@ -55,7 +62,7 @@ export class FetcherHandler implements TaskHandler {
       logger.info(`Transformed ${candidates.length} candidates`)
 
       // 3. Send to backend for persistence (in batches to avoid timeout)
-      const result = await this.sendCandidatesToBackend(context, candidates, task.payload.sync_run_id)
+      const result = await this.sendCandidatesToBackend(context, dryRunReport, candidates, task.payload.sync_run_id)
       logger.info('ADO sync completed', result)
 
       return {
@@ -64,6 +71,7 @@ export class FetcherHandler implements TaskHandler {
         updated: result.updated,
         skipped: result.skipped,
         success: true,
+        ...dryRunReport?.toResult(),
       }
     } catch (error: any) {
       logger.error('ADO sync failed', { error: error.message })
@@ -97,13 +105,15 @@ export class FetcherHandler implements TaskHandler {
    * Fetch work items from Azure DevOps using WIQL
    * @param config ADO configuration
    * @param maxItems Maximum number of items to fetch (applied after WIQL query)
+   * @param context Task context - checked for cancellation and used to report progress between batches
    */
   private async fetchWorkItems(config: {
     organization: string
     project: string
     patToken: string
-  }, maxItems: number): Promise<AdoWorkItem[]> {
-    const baseUrl = `https://dev.azure.com/${config.organization}/${config.project}/_apis`
+  }, maxItems: number, context: TaskContext): Promise<AdoWorkItem[]> {
+    const ado = context.httpClients.get('ado')
+    const basePath = `/${config.organization}/${config.project}/_apis`
 
     // Create Basic auth header
     const authHeader = 'Basic ' + Buffer.from(`:${config.patToken}`).toString('base64')
@@ -120,16 +130,17 @@ export class FetcherHandler implements TaskHandler {
       `,
     }
 
-    const wiqlResponse = await http.post<any>(
-      `${baseUrl}/wit/wiql?api-version=7.0`,
-      wiqlQuery,
-      {
-        headers: {
-          'Authorization': authHeader,
-          'Content-Type': 'application/json',
-        },
-      }
-    )
+    context.reportProgress({ percent: 0, stage: 'querying' })
+
+    const wiqlResponse = await ado.request<any>(`${basePath}/wit/wiql?api-version=7.0`, {
+      method: 'POST',
+      idempotent: true,  // Read-only query
+      headers: {
+        'Authorization': authHeader,
+      },
+      body: JSON.stringify(wiqlQuery),
+      signal: context.signal,
+    })
 
     const workItemRefs = wiqlResponse.workItems || []
     if (workItemRefs.length === 0) {
@@ -149,6 +160,8 @@ export class FetcherHandler implements TaskHandler {
     const allWorkItems: AdoWorkItem[] = []
 
     for (let i = 0; i < limitedIds.length; i += batchSize) {
+      context.signal?.throwIfAborted()
+
       const batchIds = limitedIds.slice(i, i + batchSize)
       const idsParam = batchIds.join(',')
 
@@ -166,16 +179,24 @@ export class FetcherHandler implements TaskHandler {
         'System.CreatedDate',  // For tracking creation
       ].join(',')
 
-      const detailsResponse = await http.get<{ value: AdoWorkItem[] }>(
-        `${baseUrl}/wit/workitems?ids=${idsParam}&fields=${fieldsParam}&api-version=7.0`,
+      const detailsResponse = await ado.request<{ value: AdoWorkItem[] }>(
+        `${basePath}/wit/workitems?ids=${idsParam}&fields=${fieldsParam}&api-version=7.0`,
         {
           headers: {
             'Authorization': authHeader,
           },
+          signal: context.signal,
         }
       )
 
       allWorkItems.push(...(detailsResponse.value || []))
+
+      // Fetching is the first half of the sync
+      context.reportProgress({
+        percent: (allWorkItems.length / limitedIds.length) * 50,
+        stage: 'fetching',
+        counters: { fetched: allWorkItems.length, total: limitedIds.length },
+      })
     }
 
     return allWorkItems
@@ -210,13 +231,15 @@ export class FetcherHandler implements TaskHandler {
   /**
    * Send candidates to backend for persistence
    * Sends in batches to avoid timeout on large payloads
+   * In dry-run mode each batch is recorded (work item IDs only) instead of sent
    */
   private async sendCandidatesToBackend(
     context: TaskContext,
+    dryRunReport: DryRunReport | null,
     candidates: any[],
     syncRunId?: string
   ): Promise<{ imported: number; updated: number; skipped: number }> {
-    const client = createAuthenticatedClient(context)
+    const backend = context.httpClients.get('backend')
 
     // Aggregate results across batches
     let totalImported = 0
@@ -225,26 +248,53 @@ export class FetcherHandler implements TaskHandler {
 
     // Send in batches to avoid timeout
     for (let i = 0; i < candidates.length; i += UPSERT_BATCH_SIZE) {
+      context.signal?.throwIfAborted()
+
       const batch = candidates.slice(i, i + UPSERT_BATCH_SIZE)
       const batchNumber = Math.floor(i / UPSERT_BATCH_SIZE) + 1
       const totalBatches = Math.ceil(candidates.length / UPSERT_BATCH_SIZE)
 
-      logger.info(`Sending batch ${batchNumber}/${totalBatches} (${batch.length} candidates)`)
-
-      const response = await client.post<{ imported: number; updated: number; skipped: number }>(
-        `/api/agent/candidates/upsert`,
-        {
-          candidates: batch,
+      if (dryRunReport) {
+        dryRunReport.record('backend_post', `/api/agent/candidates/upsert`, {
+          batch: batchNumber,
+          candidate_count: batch.length,
+          work_item_ids: batch.map(candidate => candidate.ado_work_item_id),
           sync_run_id: syncRunId,
-        },
-        {
-          timeout: 120000,  // 2 minute timeout per batch (increased from default 30s)
-        }
-      )
+        })
+        logger.info(`Dry run: skipped batch ${batchNumber}/${totalBatches} (${batch.length} candidates)`)
+      } else {
+        logger.info(`Sending batch ${batchNumber}/${totalBatches} (${batch.length} candidates)`)
+
+        const response = await backend.request<{ imported: number; updated: number; skipped: number }>(
+          `/api/agent/candidates/upsert`,
+          {
+            method: 'POST',
+            body: JSON.stringify({
+              candidates: batch,
+              sync_run_id: syncRunId,
+            }),
+            timeoutMs: 120000,  // 2 minute timeout per batch (increased from default 30s)
+            idempotent: true,  // Upsert keyed by work item ID
+            signal: context.signal,
+          }
+        )
+
+        totalImported += response.imported
+        totalUpdated += response.updated
+        totalSkipped += response.skipped
+      }
 
-      totalImported += response.imported
-      totalUpdated += response.updated
-      totalSkipped += response.skipped
+      // Uploading is the second half of the sync
+      context.reportProgress({
+        percent: 50 + (batchNumber / totalBatches) * 50,
+        stage: 'uploading',
+        counters: {
+          imported: totalImported,
+          updated: totalUpdated,
+          skipped: totalSkipped,
+          total: candidates.length,
+        },
+      })
     }
 
     return {
@@ -8,7 +8,7 @@
 import type { TaskHandler, TaskContext } from '../runtime/TaskExecutor'
 import type { AgentTask } from '../api/BackendApiClient'
 import { logger } from '../utils/logger'
-import { logCollector, type ParsedLogEntry } from '../services/LogCollector'
+import { getLogCollector, type ParsedLogEntry } from '../services/LogCollector'
 
 const MAX_LOGS_PER_BATCH = 50
 
@@ -20,8 +20,8 @@ export class LoggerHandler implements TaskHandler {
     logger.debug('Starting log transfer', { taskId: task.id })
 
     try {
-      // Collect new logs since last transfer
-      const logs = await logCollector.collectLogs(MAX_LOGS_PER_BATCH)
+      // Collect new logs since last transfer (only this workspace's lines in multi-workspace mode)
+      const logs = await getLogCollector(context.config.workspaceName).collectLogs(MAX_LOGS_PER_BATCH)
 
       if (logs.length === 0) {
         logger.debug('No new logs to transfer')
@@ -10,6 +10,7 @@ import type { AgentTask } from '../api/BackendApiClient'
 import { logger, getLogDirectory } from '../utils/logger'
 import * as fs from 'fs'
 import * as path from 'path'
+import { DryRunReport } from './DryRunReport'
 
 interface MaintainPayload {
   retention_days?: number
@@ -25,6 +26,7 @@ export class MaintainHandler implements TaskHandler {
     try {
       const payload = task.payload as MaintainPayload
       const retentionDays = payload.retention_days || 7
+      const dryRunReport = context.dryRun ? new DryRunReport() : null
 
       // Get log directories to clean
       const appLogDir = getLogDirectory() // logs/app/
@@ -34,13 +36,13 @@ export class MaintainHandler implements TaskHandler {
       let totalBytes = 0
 
       // Clean app logs (Pino)
-      const appResult = await this.cleanDirectory(appLogDir, retentionDays)
+      const appResult = await this.cleanDirectory(appLogDir, retentionDays, dryRunReport)
       totalDeleted += appResult.deleted
       totalBytes += appResult.bytes
 
       // Clean NSSM logs if directory exists
       if (fs.existsSync(nssmLogDir)) {
-        const nssmResult = await this.cleanDirectory(nssmLogDir, retentionDays)
+        const nssmResult = await this.cleanDirectory(nssmLogDir, retentionDays, dryRunReport)
         totalDeleted += nssmResult.deleted
         totalBytes += nssmResult.bytes
       }
@@ -49,13 +51,16 @@ export class MaintainHandler implements TaskHandler {
         deleted: totalDeleted,
         bytesFreed: totalBytes,
         retentionDays,
+        dryRun: !!dryRunReport,
       })
 
+      // In dry-run mode deleted/bytes_freed count the files that would have been deleted
       return {
         deleted: totalDeleted,
         bytes_freed: totalBytes,
         retention_days: retentionDays,
         success: true,
+        ...dryRunReport?.toResult(),
       }
     } catch (error: any) {
       logger.error('Maintenance failed', { error: error.message })
@@ -65,10 +70,12 @@ export class MaintainHandler implements TaskHandler {
 
   /**
    * Clean old files from a directory
+   * In dry-run mode expired files are recorded instead of deleted
    */
   private async cleanDirectory(
     dirPath: string,
-    retentionDays: number
+    retentionDays: number,
+    dryRunReport: DryRunReport | null
   ): Promise<{ deleted: number; bytes: number }> {
     let deleted = 0
     let bytes = 0
@@ -96,6 +103,16 @@ export class MaintainHandler implements TaskHandler {
           // Check if file is older than retention period
           const age = now - stats.mtimeMs
           if (age > maxAge) {
+            if (dryRunReport) {
+              dryRunReport.record('delete_file', filePath, {
+                size: stats.size,
+                modified_at: stats.mtime.toISOString(),
+              })
+              deleted++
+              bytes += stats.size
+              continue
+            }
+
             // Delete the file
             fs.unlinkSync(filePath)
             deleted++
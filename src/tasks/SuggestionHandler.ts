@@ -1,9 +1,11 @@
 import type { TaskHandler, TaskContext } from '../runtime/TaskExecutor'
 import type { AgentTask } from '../api/BackendApiClient'
 import { logger } from '../utils/logger'
-import { http } from '../utils/fetch-helper'
-import { createAuthenticatedClient } from '../utils/authenticated-http'
 import { createHash } from 'crypto'
+import { agentMetrics } from '../metrics/AgentMetrics'
+import { DryRunReport } from './DryRunReport'
+import { CredentialsRejectedError } from './CredentialsRejectedError'
+import { MAX_COMPLETION_TOKENS, SUGGESTION_PROMPT_TOKEN_ESTIMATE, estimateTokens } from '../services/QuotaManager'
 
 interface Candidate {
   id: string
@@ -50,24 +52,39 @@ export class SuggestionHandler implements TaskHandler {
       apiVersion: string
     }
 
+    // Check hourly limits before spending anything (throws QuotaExceededError when spent)
+    // The prompt size is checked again once the candidate is known
+    context.quota.assertAvailable('openai_tokens', SUGGESTION_PROMPT_TOKEN_ESTIMATE + MAX_COMPLETION_TOKENS)
+    context.quota.acquire('suggestion_requests')
+
+    const dryRunReport = context.dryRun ? new DryRunReport() : null
+
     try {
       // 1. Fetch candidate from backend
+      context.reportProgress({ percent: 0, stage: 'fetching_candidate' })
       const candidate = await this.fetchCandidate(context, candidateId)
       logger.info('Fetched candidate', { candidateId, title: candidate.title })
 
       // 2. Generate suggestion evaluation using Azure OpenAI
-      const report = await this.evaluateSuggestion(validatedConfig, candidate)
+      context.reportProgress({ percent: 25, stage: 'evaluating' })
+      const { report, tokensUsed } = await this.evaluateSuggestion(context, validatedConfig, candidate).catch(error => {
+        throw CredentialsRejectedError.from('openai', error)
+      })
+      context.quota.record('openai_tokens', tokensUsed)
+      agentMetrics.openAiTokens.inc({ task_type: task.type }, tokensUsed)
       logger.info('Generated suggestion report', {
         candidateId,
         suggestionScore: report.suggestion_score,
         issuesCount: report.issues.length,
+        tokensUsed,
       })
 
       // 3. Calculate hash of candidate content for change detection
       const hash = this.hashCandidate(candidate)
 
       // 4. Send report to backend for persistence
-      await this.submitSuggestionReport(context, candidateId, report, hash)
+      context.reportProgress({ percent: 75, stage: 'submitting' })
+      await this.submitSuggestionReport(context, dryRunReport, candidateId, report, hash, tokensUsed)
       logger.info('Suggestion evaluation completed')
 
       return {
@@ -75,6 +92,7 @@ export class SuggestionHandler implements TaskHandler {
         suggestion_score: report.suggestion_score,
         has_suggestions: !!report.suggested_improvements,
         success: true,
+        ...dryRunReport?.toResult(),
       }
     } catch (error: any) {
       logger.error('Suggestion evaluation failed', { error: error.message })
@@ -110,14 +128,14 @@ export class SuggestionHandler implements TaskHandler {
    * Fetch candidate from backend
    */
   private async fetchCandidate(context: TaskContext, candidateId: string): Promise<Candidate> {
-    const client = createAuthenticatedClient(context)
-    return await client.get<Candidate>(`/api/agent/candidates/${candidateId}`)
+    return await context.httpClients.get('backend').request<Candidate>(`/api/agent/candidates/${candidateId}`, { signal: context.signal })
   }
 
   /**
    * Evaluate work item using Azure OpenAI
    */
   private async evaluateSuggestion(
+    context: TaskContext,
     config: {
       endpoint: string
       apiKey: string
@@ -125,18 +143,26 @@ export class SuggestionHandler implements TaskHandler {
       apiVersion: string
     },
     candidate: Candidate
-  ): Promise<SuggestionReport> {
+  ): Promise<{ report: SuggestionReport; tokensUsed: number }> {
     const prompt = this.buildSuggestionPrompt(candidate)
+    const systemPrompt = 'You are an expert at evaluating and improving work items for software development teams.'
+
+    // Prompt plus the completion cap - the most this call can use
+    const maxTokens = estimateTokens(systemPrompt + prompt) + MAX_COMPLETION_TOKENS
+    context.quota.assertAvailable('openai_tokens', maxTokens)
 
     const url = `${config.endpoint}/openai/deployments/${config.deployment}/chat/completions?api-version=${config.apiVersion}`
 
-    const response = await http.post<any>(
-      url,
-      {
+    const response = await context.httpClients.get('openai').request<any>(url, {
+      method: 'POST',
+      headers: {
+        'api-key': config.apiKey,
+      },
+      body: JSON.stringify({
         messages: [
           {
             role: 'system',
-            content: 'You are an expert at evaluating and improving work items for software development teams.',
+            content: systemPrompt,
           },
           {
             role: 'user',
@@ -144,21 +170,19 @@ export class SuggestionHandler implements TaskHandler {
           },
         ],
         temperature: 0.3,
-        max_tokens: 2000,
+        max_tokens: MAX_COMPLETION_TOKENS,
         response_format: { type: 'json_object' },
-      },
-      {
-        headers: {
-          'api-key': config.apiKey,
-          'Content-Type': 'application/json',
-        },
-      }
-    )
+      }),
+      signal: context.signal,
+    })
 
     const content = response.choices[0].message.content
     const report = JSON.parse(content) as SuggestionReport
 
-    return report
+    // Without a usage block, count the prompt estimate plus the completion cap so budgets stay conservative
+    const tokensUsed: number = response.usage?.total_tokens ?? maxTokens
+
+    return { report, tokensUsed }
   }
 
   /**
@@ -210,23 +234,34 @@ Respond ONLY with valid JSON.
   }
 
   /**
-   * Submit suggestion report to backend
+   * Submit suggestion report to backend (recorded instead in dry-run mode)
    */
   private async submitSuggestionReport(
     context: TaskContext,
+    dryRunReport: DryRunReport | null,
     candidateId: string,
     report: SuggestionReport,
-    hash: string
+    hash: string,
+    tokensUsed: number
   ): Promise<void> {
-    const client = createAuthenticatedClient(context)
-    await client.post(
-      `/api/agent/suggestion/report`,
-      {
-        candidate_id: candidateId,
-        report,
-        hash,
-        tokens_used: 0, // Would track actual token usage
-      }
-    )
+    const path = `/api/agent/suggestion/report`
+    const body = {
+      candidate_id: candidateId,
+      report,
+      hash,
+      tokens_used: tokensUsed,
+    }
+
+    if (dryRunReport) {
+      dryRunReport.record('backend_post', path, body)
+      logger.info('Dry run: skipped suggestion report submission', { candidateId })
+      return
+    }
+
+    await context.httpClients.get('backend').request(path, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      signal: context.signal,
+    })
   }
 }
\ No newline at end of file
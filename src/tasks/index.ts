@@ -0,0 +1,28 @@
+import type { TaskHandler } from '../runtime/TaskExecutor'
+
+// Task handlers - named to match backend task types
+import { FetcherHandler } from './FetcherHandler'
+import { SuggestionHandler } from './SuggestionHandler'
+import { ApplyHandler } from './ApplyHandler'
+import { LoggerHandler } from './LoggerHandler'
+import { MaintainHandler } from './MaintainHandler'
+
+/**
+ * Create the built-in task handlers
+ *
+ * Task types match the backend (lowercase):
+ * - fetcher: ADO sync
+ * - suggestion: AI-powered work item improvements
+ * - apply: Apply approved suggestions
+ * - logger: Transfer logs to server
+ * - maintain: Log cleanup and retention
+ */
+export function createBuiltinHandlers(): Map<string, TaskHandler> {
+  return new Map<string, TaskHandler>([
+    ['fetcher', new FetcherHandler()],
+    ['suggestion', new SuggestionHandler()],
+    ['apply', new ApplyHandler()],
+    ['logger', new LoggerHandler()],
+    ['maintain', new MaintainHandler()],
+  ])
+}
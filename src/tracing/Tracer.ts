@@ -0,0 +1,306 @@
+/**
+ * Tracer - Span-based tracing with W3C trace context
+ *
+ * The active span is carried through async calls with AsyncLocalStorage, so
+ * HTTP requests made anywhere inside a task become children of the task span.
+ * Finished spans are batched and handed to the configured exporters (OTLP/HTTP,
+ * file). With no exporters configured, spans are not recorded at all.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { randomBytes } from 'crypto'
+import { performance } from 'perf_hooks'
+import { logger } from '../utils/logger'
+import { getErrorMessage } from '../utils/HttpError'
+import type {
+  FinishedSpan,
+  SpanAttributes,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanStatusCode,
+  TraceResource,
+} from './types'
+
+// Export batching: flush every 5s, or as soon as a batch fills up
+const EXPORT_INTERVAL_MS = 5000
+const MAX_EXPORT_BATCH_SIZE = 256
+// Spans are dropped (oldest first) beyond this when exporters cannot keep up
+const MAX_QUEUE_SIZE = 2048
+
+/**
+ * Current time as epoch milliseconds with sub-millisecond precision
+ */
+function nowMs(): number {
+  return performance.timeOrigin + performance.now()
+}
+
+/**
+ * Identifies a span, possibly one recorded in another thread or process
+ */
+export interface SpanContext {
+  traceId: string
+  spanId: string
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind
+  attributes?: SpanAttributes
+  /** Start a new trace even if a span is active */
+  root?: boolean
+  /** Remote parent as a W3C traceparent (e.g. passed to a worker thread) */
+  traceparent?: string
+}
+
+/**
+ * Parse a W3C traceparent header value
+ */
+export function parseTraceparent(traceparent: string): SpanContext | undefined {
+  const match = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/.exec(traceparent.trim())
+  return match ? { traceId: match[1], spanId: match[2] } : undefined
+}
+
+/**
+ * A unit of work in a trace
+ */
+export class Span implements SpanContext {
+  readonly traceId: string
+  readonly spanId: string
+  private readonly startTimeMs = nowMs()
+  private attributes: SpanAttributes
+  private events: SpanEvent[] = []
+  private status: FinishedSpan['status'] = { code: 'unset' }
+  private ended = false
+
+  constructor(
+    private readonly tracer: Tracer,
+    readonly name: string,
+    private readonly kind: SpanKind,
+    private readonly parent: SpanContext | undefined,
+    attributes: SpanAttributes = {}
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString('hex')
+    this.spanId = randomBytes(8).toString('hex')
+    this.attributes = { ...attributes }
+  }
+
+  setAttribute(key: string, value: SpanAttributes[string]): this {
+    this.attributes[key] = value
+    return this
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes)
+    return this
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = { code, message }
+    return this
+  }
+
+  /**
+   * Record an error as an exception event and mark the span as failed
+   */
+  recordException(error: unknown): this {
+    this.events.push({
+      name: 'exception',
+      timeMs: nowMs(),
+      attributes: {
+        'exception.type': error instanceof Error ? error.name : typeof error,
+        'exception.message': getErrorMessage(error),
+      },
+    })
+    return this.setStatus('error', getErrorMessage(error))
+  }
+
+  /**
+   * W3C traceparent header value for this span (always sampled)
+   */
+  toTraceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-01`
+  }
+
+  end(): void {
+    if (this.ended) {
+      return
+    }
+    this.ended = true
+
+    this.tracer.onSpanEnd({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parent?.spanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeMs: this.startTimeMs,
+      endTimeMs: nowMs(),
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+    })
+  }
+}
+
+export class Tracer {
+  private readonly contextStorage = new AsyncLocalStorage<Span>()
+  private exporters: SpanExporter[] = []
+  private resource: TraceResource = { serviceName: 'adno-agent', serviceVersion: 'unknown' }
+  private queue: FinishedSpan[] = []
+  private flushInterval: NodeJS.Timeout | null = null
+  private exportInFlight: Promise<void> | null = null
+
+  /**
+   * Set exporters and resource attributes
+   * Tracing stays disabled when no exporters are given
+   */
+  configure(exporters: SpanExporter[], resource: TraceResource): void {
+    this.exporters = exporters
+    this.resource = resource
+
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval)
+      this.flushInterval = null
+    }
+
+    if (exporters.length > 0) {
+      this.flushInterval = setInterval(() => this.flush(), EXPORT_INTERVAL_MS)
+      this.flushInterval.unref()
+      logger.info('Tracing enabled', { exporters: exporters.map(e => e.constructor.name), serviceName: resource.serviceName })
+    }
+  }
+
+  /**
+   * Whether spans are being recorded
+   */
+  isEnabled(): boolean {
+    return this.exporters.length > 0
+  }
+
+  /**
+   * Span active in the current async context, if any
+   */
+  getActiveSpan(): Span | undefined {
+    return this.contextStorage.getStore()
+  }
+
+  /**
+   * Run fn inside a new span that becomes the active span
+   * The span is ended when fn settles; a thrown error is recorded on it.
+   * When tracing is disabled fn receives undefined.
+   */
+  async startActiveSpan<T>(
+    name: string,
+    options: StartSpanOptions,
+    fn: (span: Span | undefined) => Promise<T>
+  ): Promise<T> {
+    if (!this.isEnabled()) {
+      return fn(undefined)
+    }
+
+    const parent = options.traceparent
+      ? parseTraceparent(options.traceparent)
+      : options.root ? undefined : this.getActiveSpan()
+    const span = new Span(this, name, options.kind ?? 'internal', parent, options.attributes)
+
+    return this.contextStorage.run(span, async () => {
+      try {
+        return await fn(span)
+      } catch (error: unknown) {
+        span.recordException(error)
+        throw error
+      } finally {
+        span.end()
+      }
+    })
+  }
+
+  /**
+   * Add a traceparent header for the active span
+   * Headers are returned unchanged when there is no active span
+   */
+  injectTraceparent(headers: RequestInit['headers']): RequestInit['headers'] {
+    const span = this.getActiveSpan()
+    if (!span) {
+      return headers
+    }
+
+    const merged = new Headers(headers)
+    merged.set('traceparent', span.toTraceparent())
+    return Object.fromEntries(merged.entries())
+  }
+
+  /**
+   * Queue an ended span for export
+   * @internal Called by Span.end()
+   */
+  onSpanEnd(span: FinishedSpan): void {
+    if (!this.isEnabled()) {
+      return
+    }
+
+    this.queue.push(span)
+    if (this.queue.length > MAX_QUEUE_SIZE) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUE_SIZE)
+    }
+
+    if (this.queue.length >= MAX_EXPORT_BATCH_SIZE) {
+      void this.flush()
+    }
+  }
+
+  /**
+   * Export queued spans to every exporter
+   * Waits for an export already in flight; failures are logged and the batch is dropped
+   */
+  async flush(): Promise<void> {
+    while (this.exportInFlight) {
+      await this.exportInFlight
+    }
+
+    if (this.queue.length === 0) {
+      return
+    }
+
+    this.exportInFlight = this.exportQueued()
+    try {
+      await this.exportInFlight
+    } finally {
+      this.exportInFlight = null
+    }
+  }
+
+  private async exportQueued(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, MAX_EXPORT_BATCH_SIZE)
+      await Promise.all(this.exporters.map(async exporter => {
+        try {
+          await exporter.export(batch, this.resource)
+        } catch (error: unknown) {
+          logger.warn('Span export failed', {
+            exporter: exporter.constructor.name,
+            spans: batch.length,
+            error: getErrorMessage(error),
+          })
+        }
+      }))
+    }
+  }
+
+  /**
+   * Flush remaining spans and release exporter resources
+   */
+  async shutdown(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval)
+      this.flushInterval = null
+    }
+
+    await this.flush()
+    await Promise.all(this.exporters.map(exporter => exporter.shutdown?.()))
+    this.exporters = []
+  }
+}
+
+// Export singleton instance
+export const tracer = new Tracer()
@@ -0,0 +1,25 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type { FinishedSpan, SpanExporter, TraceResource } from '../types'
+
+/**
+ * Appends spans to a local file as JSON lines for offline debugging
+ * One span per line, with durations precomputed for easy grepping
+ */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  }
+
+  async export(spans: FinishedSpan[], resource: TraceResource): Promise<void> {
+    const lines = spans.map(span => JSON.stringify({
+      service: resource.serviceName,
+      version: resource.serviceVersion,
+      ...span,
+      startTime: new Date(span.startTimeMs).toISOString(),
+      durationMs: Math.round((span.endTimeMs - span.startTimeMs) * 1000) / 1000,
+    }))
+
+    await fs.promises.appendFile(this.filePath, lines.join('\n') + '\n')
+  }
+}
@@ -0,0 +1,93 @@
+import { fetch } from 'undici'
+import type { FinishedSpan, SpanAttributes, SpanExporter, TraceResource } from '../types'
+
+// OTLP span kind and status code enum values
+const SPAN_KIND_VALUES = { internal: 1, client: 3 } as const
+const STATUS_CODE_VALUES = { unset: 0, ok: 1, error: 2 } as const
+
+const EXPORT_TIMEOUT_MS = 10000
+
+/**
+ * Epoch milliseconds to an OTLP fixed64 nanosecond string
+ */
+function toUnixNano(timeMs: number): string {
+  return (BigInt(Math.floor(timeMs)) * 1_000_000n + BigInt(Math.round((timeMs % 1) * 1_000_000))).toString()
+}
+
+/**
+ * Attributes to OTLP KeyValue list (undefined values are skipped)
+ */
+function toKeyValues(attributes: SpanAttributes): Array<{ key: string; value: Record<string, any> }> {
+  const result: Array<{ key: string; value: Record<string, any> }> = []
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) {
+      continue
+    }
+    if (typeof value === 'boolean') {
+      result.push({ key, value: { boolValue: value } })
+    } else if (typeof value === 'number') {
+      result.push({ key, value: Number.isInteger(value) ? { intValue: value } : { doubleValue: value } })
+    } else {
+      result.push({ key, value: { stringValue: value } })
+    }
+  }
+  return result
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector using OTLP/HTTP with JSON encoding
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  constructor(
+    private readonly endpoint: string,
+    private readonly headers: Record<string, string> = {}
+  ) {}
+
+  async export(spans: FinishedSpan[], resource: TraceResource): Promise<void> {
+    const body = {
+      resourceSpans: [{
+        resource: {
+          attributes: toKeyValues({
+            'service.name': resource.serviceName,
+            'service.version': resource.serviceVersion,
+          }),
+        },
+        scopeSpans: [{
+          scope: { name: 'adno-agent' },
+          spans: spans.map(span => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId,
+            name: span.name,
+            kind: SPAN_KIND_VALUES[span.kind],
+            startTimeUnixNano: toUnixNano(span.startTimeMs),
+            endTimeUnixNano: toUnixNano(span.endTimeMs),
+            attributes: toKeyValues(span.attributes),
+            events: span.events.map(event => ({
+              name: event.name,
+              timeUnixNano: toUnixNano(event.timeMs),
+              attributes: toKeyValues(event.attributes),
+            })),
+            status: { code: STATUS_CODE_VALUES[span.status.code], message: span.status.message },
+          })),
+        }],
+      }],
+    }
+
+    // undici's fetch, so a proxy installed by NetworkDispatchers.installGlobal applies with the same undici version
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error')
+      throw new Error(`OTLP export failed with HTTP ${response.status}: ${errorText}`)
+    }
+  }
+}
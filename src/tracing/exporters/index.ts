@@ -0,0 +1,20 @@
+import type { AgentConfig } from '../../config'
+import type { SpanExporter } from '../types'
+import { OtlpHttpSpanExporter } from './OtlpHttpSpanExporter'
+import { FileSpanExporter } from './FileSpanExporter'
+
+/**
+ * Create the span exporters enabled in config (none when tracing is off)
+ */
+export function createSpanExporters(config: AgentConfig): SpanExporter[] {
+  const exporters: SpanExporter[] = []
+
+  if (config.otlpTracesEndpoint) {
+    exporters.push(new OtlpHttpSpanExporter(config.otlpTracesEndpoint, config.otlpHeaders))
+  }
+  if (config.traceFile) {
+    exporters.push(new FileSpanExporter(config.traceFile))
+  }
+
+  return exporters
+}
@@ -0,0 +1,56 @@
+/**
+ * Span kind (subset of the OpenTelemetry kinds used by the agent)
+ */
+export type SpanKind = 'internal' | 'client'
+
+/**
+ * Span status (OpenTelemetry status codes)
+ */
+export type SpanStatusCode = 'unset' | 'ok' | 'error'
+
+export type SpanAttributeValue = string | number | boolean
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>
+
+/**
+ * Timestamped annotation on a span (e.g. a recorded exception)
+ */
+export interface SpanEvent {
+  name: string
+  timeMs: number
+  attributes: SpanAttributes
+}
+
+/**
+ * Immutable snapshot of an ended span, handed to exporters
+ * Times are epoch milliseconds with sub-millisecond precision
+ */
+export interface FinishedSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: SpanKind
+  startTimeMs: number
+  endTimeMs: number
+  attributes: SpanAttributes
+  events: SpanEvent[]
+  status: { code: SpanStatusCode; message?: string }
+}
+
+/**
+ * Process-level attributes attached to every exported span
+ */
+export interface TraceResource {
+  serviceName: string
+  serviceVersion: string
+}
+
+/**
+ * Span exporter interface
+ * Implementations send batches of finished spans to a tracing backend
+ */
+export interface SpanExporter {
+  export(spans: FinishedSpan[], resource: TraceResource): Promise<void>
+  shutdown?(): Promise<void>
+}
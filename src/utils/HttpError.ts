@@ -18,14 +18,17 @@ export class HttpError extends Error {
   title?: string
   /** RFC 9457: Human-readable explanation specific to this occurrence */
   detail?: string
+  /** Response headers (lowercase names) - e.g. Retry-After for retry policies */
+  headers: Record<string, string>
   response?: { status: number }
 
-  constructor(message: string, status: number, problem?: ProblemDetails) {
+  constructor(message: string, status: number, problem?: ProblemDetails, headers: Record<string, string> = {}) {
     super(message)
     this.name = 'HttpError'
     this.status = status
     this.title = problem?.title
     this.detail = problem?.detail
+    this.headers = headers
     this.response = { status }
 
     // Maintains proper stack trace for where error was thrown (V8 engines)
@@ -81,6 +84,16 @@ export function getErrorStatus(error: unknown): number | undefined {
   return undefined
 }
 
+/**
+ * Get a response header safely from unknown error (name is case-insensitive)
+ */
+export function getErrorHeader(error: unknown, name: string): string | undefined {
+  if (error instanceof HttpError) {
+    return error.headers[name.toLowerCase()]
+  }
+  return undefined
+}
+
 /**
  * Get RFC 9457 title safely from unknown error
  */
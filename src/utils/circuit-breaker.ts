@@ -1,5 +1,6 @@
 import { logger } from './logger'
 import { getErrorStatus } from './HttpError'
+import { agentMetrics, CIRCUIT_STATE_VALUES } from '../metrics/AgentMetrics'
 
 /**
  * Circuit breaker states
@@ -10,11 +11,18 @@ export enum CircuitState {
   HALF_OPEN = 'HALF_OPEN' // Testing if service has recovered
 }
 
+/**
+ * How a closed circuit decides to open
+ * - consecutive: failureThreshold failures in a row
+ * - sliding_window: failure rate or slow-call rate over the last windowMs, once minimumCalls were made
+ */
+export type CircuitBreakerMode = 'consecutive' | 'sliding_window'
+
 /**
  * Circuit breaker configuration
  */
 export interface CircuitBreakerConfig {
-  /** Number of failures before opening circuit */
+  /** Number of failures before opening circuit (consecutive mode) */
   failureThreshold: number
   /** Time in ms to wait before attempting recovery (OPEN → HALF_OPEN) */
   recoveryTimeoutMs: number
@@ -22,6 +30,38 @@ export interface CircuitBreakerConfig {
   successThreshold: number
   /** Timeout in ms for each request */
   timeoutMs: number
+  /** Trip condition (default: consecutive) */
+  mode?: CircuitBreakerMode
+  /** Length of the rolling window in ms (sliding_window mode, default: 60000) */
+  windowMs?: number
+  /** Calls needed in the window before rates are evaluated (sliding_window mode, default: 10) */
+  minimumCalls?: number
+  /** Share of failed calls (0-1) that opens the circuit (sliding_window mode, default: 0.5) */
+  failureRateThreshold?: number
+  /** Calls slower than this count as slow (sliding_window mode, default: timeoutMs) */
+  slowCallDurationMs?: number
+  /** Share of slow calls (0-1) that opens the circuit (sliding_window mode, default: 1 = only when every call is slow) */
+  slowCallRateThreshold?: number
+}
+
+/**
+ * A circuit breaker state transition, passed to state change listeners
+ */
+export interface CircuitStateChange {
+  breaker: string
+  from: CircuitState
+  to: CircuitState
+  reason: string
+  failureRate?: number  // Window rates at the time of the change (sliding_window mode)
+  slowCallRate?: number
+}
+
+type ResolvedCircuitBreakerConfig = Required<CircuitBreakerConfig>
+
+interface CallOutcome {
+  time: number
+  failed: boolean
+  slow: boolean
 }
 
 /**
@@ -34,6 +74,17 @@ export class CircuitBreakerOpenError extends Error {
   }
 }
 
+/**
+ * Run fn, rejecting with a circuit breaker timeout after timeoutMs
+ */
+export function runWithTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error('Circuit breaker timeout')), timeoutMs)
+  })
+
+  return Promise.race([fn(), timeoutPromise])
+}
+
 /**
  * Circuit breaker pattern implementation
  * Prevents cascading failures by failing fast when backend is down
@@ -43,21 +94,67 @@ export class CircuitBreaker {
   private failureCount: number = 0
   private successCount: number = 0
   private nextAttemptTime: number = 0
-  private config: CircuitBreakerConfig
+  private config: ResolvedCircuitBreakerConfig
+  private name: string
+  private window: CallOutcome[] = []  // Calls in the rolling window (sliding_window mode)
+  private stateChangeListeners: Array<(change: CircuitStateChange) => void> = []
 
-  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+  constructor(config: Partial<CircuitBreakerConfig> = {}, name: string = 'default') {
+    this.name = name
+    const timeoutMs = config.timeoutMs ?? 30000 // 30 seconds
     this.config = {
       failureThreshold: config.failureThreshold ?? 5,
       recoveryTimeoutMs: config.recoveryTimeoutMs ?? 60000, // 1 minute
       successThreshold: config.successThreshold ?? 2,
-      timeoutMs: config.timeoutMs ?? 30000, // 30 seconds
+      timeoutMs,
+      mode: config.mode ?? 'consecutive',
+      windowMs: config.windowMs ?? 60000,
+      minimumCalls: config.minimumCalls ?? 10,
+      failureRateThreshold: config.failureRateThreshold ?? 0.5,
+      slowCallDurationMs: config.slowCallDurationMs ?? timeoutMs,
+      slowCallRateThreshold: config.slowCallRateThreshold ?? 1,
     }
+    agentMetrics.circuitBreakerState.set({ breaker: this.name }, CIRCUIT_STATE_VALUES[this.state])
+  }
+
+  /**
+   * Get the breaker name (metrics label and state change events)
+   */
+  getName(): string {
+    return this.name
+  }
+
+  /**
+   * Call listener on every state transition
+   */
+  onStateChange(listener: (change: CircuitStateChange) => void): void {
+    this.stateChangeListeners.push(listener)
   }
 
   /**
    * Execute a function with circuit breaker protection
+   * @param extendMs Extra time for this call on top of the configured timeout
    */
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  async execute<T>(fn: () => Promise<T>, extendMs?: number): Promise<T> {
+    this.admit()
+
+    const startedAt = Date.now()
+    try {
+      const result = await runWithTimeout(fn, this.getTimeoutMs() + (extendMs ?? 0))
+      this.recordResult(Date.now() - startedAt)
+      return result
+    } catch (error) {
+      this.recordResult(Date.now() - startedAt, error)
+      throw error
+    }
+  }
+
+  /**
+   * Let a call through or throw CircuitBreakerOpenError
+   * execute() does this itself; used directly for calls made on another thread,
+   * which report their outcome with recordResult()
+   */
+  admit(): void {
     if (this.state === CircuitState.OPEN) {
       if (Date.now() < this.nextAttemptTime) {
         throw new CircuitBreakerOpenError(
@@ -65,55 +162,57 @@ export class CircuitBreaker {
         )
       }
 
-      this.state = CircuitState.HALF_OPEN
+      this.transition(CircuitState.HALF_OPEN, 'recovery timeout elapsed')
       this.successCount = 0
-      logger.info('Circuit breaker transitioning to HALF_OPEN for recovery attempt')
+      logger.info('Circuit breaker transitioning to HALF_OPEN for recovery attempt', { breaker: this.name })
     }
+  }
 
-    try {
-      const result = await this.executeWithTimeout(fn, this.config.timeoutMs)
-
-      this.onSuccess()
-
-      return result
-    } catch (error) {
-      const status = getErrorStatus(error)
-
-      // Only record 5xx errors and network failures as circuit breaker failures
-      // Skip 4xx client errors (not transient failures)
-      if (!status || status >= 500) {
-        this.onFailure(error)
-      }
+  /**
+   * Record the outcome of an admitted call (error is omitted when it succeeded)
+   */
+  recordResult(durationMs: number, error?: unknown): void {
+    if (error === undefined) {
+      this.onSuccess(durationMs)
+      return
+    }
 
-      throw error
+    // Only record 5xx errors and network failures as circuit breaker failures
+    // Skip 4xx client errors (not transient failures)
+    const status = getErrorStatus(error)
+    if (!status || status >= 500) {
+      this.onFailure(error, durationMs)
+    } else {
+      this.onSuccess(durationMs)
     }
   }
 
   /**
-   * Execute function with timeout
+   * Configured timeout of one call (all retry attempts of a request)
    */
-  private async executeWithTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Circuit breaker timeout')), timeoutMs)
-    })
-
-    return Promise.race([fn(), timeoutPromise])
+  getTimeoutMs(): number {
+    return this.config.timeoutMs
   }
 
   /**
-   * Handle successful execution
+   * Handle successful execution (the server answered, possibly with a 4xx)
    */
-  private onSuccess(): void {
+  private onSuccess(durationMs: number): void {
     this.failureCount = 0
 
+    if (this.state === CircuitState.CLOSED && this.config.mode === 'sliding_window') {
+      this.recordCall(false, durationMs)
+      this.evaluateWindow()
+    }
+
     if (this.state === CircuitState.HALF_OPEN) {
       this.successCount++
 
       if (this.successCount >= this.config.successThreshold) {
         // Enough successes - close the circuit
-        this.state = CircuitState.CLOSED
+        this.transition(CircuitState.CLOSED, 'service recovered')
         this.successCount = 0
-        logger.info('Circuit breaker transitioned to CLOSED (service recovered)')
+        logger.info('Circuit breaker transitioned to CLOSED (service recovered)', { breaker: this.name })
       } else {
         logger.debug('Circuit breaker in HALF_OPEN', {
           successCount: this.successCount,
@@ -126,10 +225,11 @@ export class CircuitBreaker {
   /**
    * Handle failed execution
    */
-  private onFailure(error: any): void {
+  private onFailure(error: any, durationMs: number): void {
     this.failureCount++
 
     logger.warn('Circuit breaker recorded failure', {
+      breaker: this.name,
       state: this.state,
       failureCount: this.failureCount,
       failureThreshold: this.config.failureThreshold,
@@ -138,23 +238,66 @@ export class CircuitBreaker {
 
     if (this.state === CircuitState.HALF_OPEN) {
       // Failed during recovery - reopen circuit
-      this.tripCircuit()
+      this.tripCircuit('failed during recovery')
+    } else if (this.config.mode === 'sliding_window') {
+      this.recordCall(true, durationMs)
+      this.evaluateWindow()
     } else if (this.failureCount >= this.config.failureThreshold) {
       // Too many failures - open circuit
-      this.tripCircuit()
+      this.tripCircuit(`${this.failureCount} consecutive failures`)
+    }
+  }
+
+  /**
+   * Add a call to the rolling window and drop calls that left it
+   */
+  private recordCall(failed: boolean, durationMs: number): void {
+    const now = Date.now()
+    this.window.push({ time: now, failed, slow: durationMs >= this.config.slowCallDurationMs })
+    while (this.window.length > 0 && this.window[0].time <= now - this.config.windowMs) {
+      this.window.shift()
+    }
+  }
+
+  /**
+   * Open the circuit when the window has enough calls and a rate crosses its threshold
+   */
+  private evaluateWindow(): void {
+    if (this.window.length < this.config.minimumCalls) {
+      return
+    }
+
+    const { failureRate, slowCallRate } = this.getWindowRates()
+    if (failureRate >= this.config.failureRateThreshold) {
+      this.tripCircuit(`failure rate ${Math.round(failureRate * 100)}% over ${this.window.length} calls`)
+    } else if (slowCallRate >= this.config.slowCallRateThreshold) {
+      this.tripCircuit(`slow call rate ${Math.round(slowCallRate * 100)}% over ${this.window.length} calls`)
+    }
+  }
+
+  private getWindowRates(): { failureRate: number; slowCallRate: number } {
+    if (this.window.length === 0) {
+      return { failureRate: 0, slowCallRate: 0 }
+    }
+    return {
+      failureRate: this.window.filter(call => call.failed).length / this.window.length,
+      slowCallRate: this.window.filter(call => call.slow).length / this.window.length,
     }
   }
 
   /**
    * Trip (open) the circuit
    */
-  private tripCircuit(): void {
-    this.state = CircuitState.OPEN
+  private tripCircuit(reason: string): void {
+    this.transition(CircuitState.OPEN, reason)
     this.failureCount = 0
     this.successCount = 0
+    this.window = []
     this.nextAttemptTime = Date.now() + this.config.recoveryTimeoutMs
 
     logger.error('Circuit breaker OPEN - failing fast', {
+      breaker: this.name,
+      reason,
       recoveryTimeoutMs: this.config.recoveryTimeoutMs,
       nextAttemptTime: new Date(this.nextAttemptTime).toISOString(),
     })
@@ -176,6 +319,7 @@ export class CircuitBreaker {
       failureCount: this.failureCount,
       successCount: this.successCount,
       nextAttemptTime: this.nextAttemptTime > 0 ? new Date(this.nextAttemptTime).toISOString() : null,
+      ...(this.config.mode === 'sliding_window' ? { windowCalls: this.window.length, ...this.getWindowRates() } : {}),
     }
   }
 
@@ -183,10 +327,37 @@ export class CircuitBreaker {
    * Manually reset the circuit breaker
    */
   reset(): void {
-    this.state = CircuitState.CLOSED
     this.failureCount = 0
     this.successCount = 0
     this.nextAttemptTime = 0
-    logger.info('Circuit breaker manually reset to CLOSED')
+    this.window = []
+    this.transition(CircuitState.CLOSED, 'manual reset')
+    logger.info('Circuit breaker manually reset to CLOSED', { breaker: this.name })
+  }
+
+  /**
+   * Change state, record it in metrics and notify listeners
+   */
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.state
+    if (from === to) {
+      return
+    }
+    this.state = to
+
+    agentMetrics.circuitBreakerTransitions.inc({ breaker: this.name, to })
+    agentMetrics.circuitBreakerState.set({ breaker: this.name }, CIRCUIT_STATE_VALUES[to])
+
+    const change: CircuitStateChange = { breaker: this.name, from, to, reason }
+    if (this.config.mode === 'sliding_window') {
+      Object.assign(change, this.getWindowRates())
+    }
+    for (const listener of this.stateChangeListeners) {
+      try {
+        listener(change)
+      } catch (error) {
+        logger.error({ err: error, breaker: this.name }, 'Circuit breaker state change listener failed')
+      }
+    }
   }
 }
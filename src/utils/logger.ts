@@ -7,6 +7,8 @@ import pino from 'pino'
 import { createStream, type RotatingFileStream } from 'rotating-file-stream'
 import * as path from 'path'
 import * as fs from 'fs'
+import { isMainThread, parentPort, workerData } from 'worker_threads'
+import { AsyncLocalStorage } from 'async_hooks'
 
 // Default log level from environment
 let currentLogLevel: pino.Level = (process.env.LOG_LEVEL as pino.Level) || 'info'
@@ -29,6 +31,14 @@ const logFileName = 'agent.log'
 // pkg cannot bundle Worker Thread-based transports correctly
 const usePrettyPrint = !isPkgBundle && !isProduction && process.env.LOG_FORMAT !== 'json' && !enableFileLogging
 
+// Task worker threads forward log lines to the main thread, which owns the
+// log file and stdout/stderr (see TaskWorkerPool)
+const forwardToParent = !isMainThread && parentPort !== null && workerData?.forwardLogs === true
+
+// Fields added to every line logged inside withLogContext() (e.g. workspace, instanceId)
+// Timers and promises started inside the context keep it, so a runtime's loops stay tagged
+const logContext = new AsyncLocalStorage<Record<string, string>>()
+
 // Store file stream reference for cleanup
 let fileStream: RotatingFileStream | undefined
 
@@ -82,12 +92,15 @@ function createRotatingFileStream(): RotatingFileStream | undefined {
  * If logger initialization fails, falls back to basic JSON logging
  */
 function createLogger(): pino.Logger {
-  fileStream = createRotatingFileStream()
+  fileStream = forwardToParent ? undefined : createRotatingFileStream()
 
   try {
     const baseConfig: pino.LoggerOptions = {
       level: currentLogLevel,
 
+      // Copy - pino merges each line's fields into the object the mixin returns
+      mixin: () => ({ ...logContext.getStore() }),
+
       base: {
         pid: process.pid,
         hostname: process.env.COMPUTERNAME || process.env.HOSTNAME || 'unknown',
@@ -103,6 +116,12 @@ function createLogger(): pino.Logger {
       },
     }
 
+    if (forwardToParent) {
+      return pino(baseConfig, {
+        write: (line: string) => parentPort!.postMessage({ type: 'log', line }),
+      })
+    }
+
     if (fileStream) {
       return pino(baseConfig, fileStream)
     }
@@ -206,6 +225,30 @@ export function setLogLevel(level: pino.Level): void {
   pinoLogger.info(`Log level changed to: ${level}`)
 }
 
+/**
+ * Run fn with fields added to every line it logs, including from async work it starts
+ * Nested contexts are merged with the enclosing one
+ */
+export function withLogContext<T>(bindings: Record<string, string>, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...bindings }, fn)
+}
+
+/**
+ * Write a log line forwarded from a worker thread through this thread's logger
+ * Malformed lines are dropped
+ */
+export function writeForwardedLog(line: string, bindings: object = {}): void {
+  try {
+    const { level, msg, time: _time, pid: _pid, hostname: _hostname, ...data } = JSON.parse(line)
+    const label = pino.levels.labels[level] as pino.Level | undefined
+    if (label && pinoLogger.isLevelEnabled(label)) {
+      pinoLogger[label]({ ...data, ...bindings }, msg)
+    }
+  } catch {
+    // Ignore lines that are not pino JSON
+  }
+}
+
 /**
  * Compatibility wrapper for the old logger API
  * Supports both old API (message, data) and pino API (data, message)